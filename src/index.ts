@@ -1,26 +1,194 @@
-import { Context, Schema, Logger, h } from 'koishi'
+import { Context, Schema, Logger, h, $, Query, Random, Dict, Tables } from 'koishi'
 import { getBaseTemplate, renderHeader, renderBalanceCard, renderGridItem, renderInfoRow, renderCommandGrid, renderPromptBox, renderConfirmDialog } from './templates'
 
 export const name = 'monetary-bank'
 
+/**
+ * 阶梯利率档位：余额中不超过 upTo 的部分（扣除更低档位后）适用本档利率
+ */
+export interface InterestTier {
+  upTo?: number  // 档位上限（0 或不填表示无上限）
+  rate: number   // 本档利率（百分比）
+}
+
+/**
+ * 利息取整方式：floor=向下取整，half-up=四舍五入，banker=银行家舍入（四舍六入五成双）
+ */
+export type RoundingMode = 'floor' | 'half-up' | 'banker'
+
+/**
+ * 计息模式：
+ * compound=每周期利率、利息计入本金（复利）；simple=每周期利率、利息转入现金（单利）；
+ * apr=年化利率，按周期折算后计入本金
+ */
+export type InterestModel = 'compound' | 'simple' | 'apr'
+
+/**
+ * 定期方案配置
+ */
+export interface FixedPlanConfig {
+  name?: string  // 方案名称
+  rate?: number  // 利率（百分比）
+  cycle?: 'day' | 'week' | 'month'  // 结算周期
+  model?: InterestModel  // 计息模式
+  earlyPenaltyRate?: number  // 提前支取违约金比例（百分比，按扣回利息后的支取本金计算）
+  term?: number  // 存期（结算周期数），到期前每个周期计息一次
+  interimInterest?: 'accrue' | 'payout'  // 存期内利息：accrue=计入本金，payout=转入活期
+  minAmount?: number  // 单笔最低存入金额（0 表示不限）
+  maxAmount?: number  // 单笔最高存入金额（0 表示不限）
+  maxHolding?: number  // 每位用户在该方案下的最高持有总额（0 表示不限）
+  tiers?: InterestTier[]  // 阶梯利率（配置后替代统一利率，按单笔金额分档）
+}
+
+/**
+ * 贷款产品配置
+ */
+export interface LoanProductConfig {
+  name: string  // 产品名称
+  rate: number  // 年利率（百分比），按日计息
+  term: number  // 期限（天）
+  overdueRate?: number  // 逾期罚息（年利率百分比，逾期后在正常利率基础上加收）
+  maxRatio?: number  // 可贷额度占用户累计净存入（存款减取款，借款存入的部分不计）的比例（百分比）
+  maxAmount?: number  // 单个用户在该产品下的最高未还本金（0 表示不限）
+}
+
 // 定义配置接口
 export interface Config {
   defaultCurrency?: string  // 默认货币名称
   themeMode?: 'auto' | 'light' | 'dark' // 主题模式
   debug?: boolean
   enableInterest?: boolean  // 是否启用定期利息功能
+  settlementCron?: string  // 结算时间（cron 表达式：分 时 日 月 周）
+  timezone?: string  // 日期计算与结算时间所在时区（IANA 时区名，留空使用系统时区）
+  weekAnchor?: 0 | 1 | 2 | 3 | 4 | 5 | 6  // 按周结算的锚定星期（0=周日，1=周一 … 6=周六）
+  settlementLease?: number  // 结算租约时长（分钟），多实例共享数据库时仅持有租约的实例执行结算
+  precision?: {
+    digits?: number  // 默认金额精度（小数位数）
+    rounding?: RoundingMode  // 默认利息取整方式
+    currencies?: Array<{
+      currency: string  // 货币类型
+      digits?: number  // 该货币的金额精度
+      rounding?: RoundingMode  // 该货币的利息取整方式
+    }>
+  }
   demandInterest?: {
     enabled?: boolean  // 活期利息是否启用
     rate?: number  // 活期利率（百分比）
     cycle?: 'day' | 'week' | 'month'  // 结算周期
+    model?: InterestModel  // 计息模式
+    tiers?: InterestTier[]  // 阶梯利率（配置后替代统一利率）
+    ratePolicy?: 'follow' | 'locked'  // 利率变更策略：follow=已有记录从下个周期起按新配置计息，locked=沿用存入时的利率
   }
-  fixedInterest?: Array<{
-    name?: string  // 方案名称
-    rate?: number  // 利率（百分比）
-    cycle?: 'day' | 'week' | 'month'  // 结算周期
+  fixedInterest?: FixedPlanConfig[]  // 定期方案
+  currencies?: Array<{
+    currency: string  // 货币类型
+    name?: string  // 显示名称
+    symbol?: string  // 货币符号
+    digits?: number  // 金额精度（小数位数）
+    enabled?: boolean  // 是否启用
+    demandRate?: number  // 该货币的活期利率（百分比，不填使用 demandInterest.rate）
+    fixedInterest?: FixedPlanConfig[]  // 该货币的定期方案（为空使用全局 fixedInterest）
   }>
+  exchange?: {
+    enabled?: boolean  // 是否启用货币兑换
+    provider?: string  // 汇率来源：config=使用下列 rates，其他值为其他插件注册的汇率提供者名称
+    spread?: number  // 兑换点差（百分比，从兑换所得中扣除，归入银行金库）
+    rates?: Array<{
+      from: string  // 源货币
+      to: string  // 目标货币
+      rate: number  // 1 单位源货币可兑换的目标货币数量（未配置反向汇率时按倒数计算）
+    }>
+  }
+  loan?: {
+    enabled?: boolean  // 是否启用贷款
+    products?: LoanProductConfig[]  // 贷款产品
+    pledgeLtv?: number  // 定期质押贷款的质押率（%），0 表示不开放质押；需同时启用利息功能
+    pledgeRate?: number  // 定期质押贷款的年利率（%）
+  }
+  overdraft?: {
+    enabled?: boolean  // 是否开放活期透支（用户需自行开通）
+    rate?: number  // 透支年利率（%），按日计息
+    ratio?: number  // 未单独设置额度时，额度 = 近期日均活期余额 × ratio%（0 表示仅管理员设置的额度）
+    averageDays?: number  // 计算日均余额的天数
+    maxLimit?: number  // 按规则计算的额度上限（0 表示不限）
+  }
+  credit?: {
+    enabled?: boolean  // 是否计算信用分
+    averageDays?: number  // 计算日均活期余额与透支天数的天数
+  }
+  treasury?: {
+    mode?: 'deficit' | 'pause' | 'prorate'  // 金库余额不足以支付利息时：deficit=照常支付（金库可为负），pause=暂停支付，prorate=按比例支付
+  }
+  idempotencyExpire?: number  // 幂等键有效期（小时）
+  currencyBackend?: {
+    type?: string  // 现金后端：monetary=koishi-plugin-monetary 服务，table=按下列字段直接读写数据表，其他值为其他插件注册的后端名称
+    table?: string  // 货币表名（仅 table 有效）
+    keyField?: string  // 用户ID字段名（仅 table 有效）
+    currencyField?: string  // 货币类型字段名（仅 table 有效，留空表示单一货币表）
+    valueField?: string  // 余额字段名（仅 table 有效）
+  }
+  standingOrder?: {
+    enabled?: boolean  // 是否启用定时任务（周期存款/转账）
+    maxPerUser?: number  // 每位用户最多可设置的有效定时任务数
+    maxFailures?: number  // 连续失败多少次后自动暂停
+  }
 }
 
+// 阶梯利率配置项
+const InterestTiers: Schema<InterestTier[]> = Schema.array(Schema.object({
+  upTo: Schema.natural()
+    .description('档位上限（0 表示无上限）')
+    .default(0),
+  rate: Schema.number()
+    .description('本档利率（%）')
+    .required()
+})).role('table').default([])
+
+// 计息模式配置项
+const InterestModelSchema: Schema<InterestModel> = Schema.union([
+  Schema.const('compound').description('复利：利率为每周期利率，利息计入本金'),
+  Schema.const('simple').description('单利：利率为每周期利率，利息转入现金'),
+  Schema.const('apr').description('年化：利率为年利率，按周期自动折算，利息计入本金')
+]).default('compound')
+
+// 利息取整方式配置项
+const RoundingModeSchema: Schema<RoundingMode> = Schema.union(['floor', 'half-up', 'banker']).default('floor')
+
+// 定期方案配置项
+const FixedPlanSchema: Schema<FixedPlanConfig> = Schema.object({
+  name: Schema.string()
+    .description('方案名称')
+    .required(),
+  rate: Schema.number()
+    .description('利率（%）')
+    .required(),
+  cycle: Schema.union(['day', 'week', 'month'])
+    .description('结算周期（day=日，week=周，month=月）')
+    .required(),
+  model: InterestModelSchema
+    .description('计息模式（simple 模式下利息始终转入现金，忽略 interimInterest）'),
+  earlyPenaltyRate: Schema.number()
+    .description('提前支取违约金比例（%，按扣回利息后的支取本金计算；0 表示仅扣回已得利息、放弃未到期利息）')
+    .default(0),
+  term: Schema.natural().min(1)
+    .description('存期（结算周期数），如周期为 month、存期为 3 即三个月定期，每月计息一次')
+    .default(1),
+  interimInterest: Schema.union(['accrue', 'payout'])
+    .description('存期内每周期利息的处理方式：accrue=计入本金（复利），payout=转入活期')
+    .default('accrue'),
+  minAmount: Schema.natural()
+    .description('单笔最低存入金额（0 表示不限）')
+    .default(0),
+  maxAmount: Schema.natural()
+    .description('单笔最高存入金额（0 表示不限）')
+    .default(0),
+  maxHolding: Schema.natural()
+    .description('每位用户在该方案下的最高持有总额（0 表示不限）')
+    .default(0),
+  tiers: InterestTiers
+    .description('阶梯利率：按单笔定期金额分档边际计息；留空则使用统一利率')
+})
+
 // 配置项定义
 export const Config: Schema<Config> = Schema.object({
   defaultCurrency: Schema.string()
@@ -35,6 +203,44 @@ export const Config: Schema<Config> = Schema.object({
   enableInterest: Schema.boolean()
     .description('是否启用定期利息功能')
     .default(false),
+  settlementCron: Schema.string()
+    .description('每日结算任务的执行时间（cron 表达式：分 时 日 月 周），默认每天0点')
+    .default('0 0 * * *'),
+  timezone: Schema.string()
+    .description('时区（IANA 时区名，如 Asia/Shanghai），结算时间、"每日0点"、周/月周期与日期显示均按该时区计算，留空使用系统时区')
+    .default(''),
+  weekAnchor: Schema.union([
+    Schema.const(1).description('周一'),
+    Schema.const(2).description('周二'),
+    Schema.const(3).description('周三'),
+    Schema.const(4).description('周四'),
+    Schema.const(5).description('周五'),
+    Schema.const(6).description('周六'),
+    Schema.const(0).description('周日')
+  ]).description('按周结算的锚定星期：周期为 week 的记录固定在该星期结算（首个周期不少于 7 天）').default(1),
+  settlementLease: Schema.natural()
+    .description('结算租约时长（分钟）：多个实例共享同一数据库时，仅持有租约的实例执行结算，持有者异常退出后租约到期即可由其他实例接管')
+    .min(1)
+    .default(10),
+  precision: Schema.object({
+    digits: Schema.natural()
+      .max(6)
+      .description('默认金额精度（小数位数），利息按该精度发放')
+      .default(0),
+    rounding: RoundingModeSchema
+      .description('默认利息取整方式（floor=向下取整，half-up=四舍五入，banker=银行家舍入），取整余下的零头计入下一周期'),
+    currencies: Schema.array(Schema.object({
+      currency: Schema.string()
+        .description('货币类型')
+        .required(),
+      digits: Schema.natural()
+        .max(6)
+        .description('金额精度（小数位数）')
+        .default(0),
+      rounding: RoundingModeSchema
+        .description('利息取整方式')
+    })).role('table').description('按货币单独设置精度与取整方式').default([])
+  }).description('金额精度配置'),
   demandInterest: Schema.object({
     enabled: Schema.boolean()
       .description('是否启用活期利息')
@@ -44,28 +250,181 @@ export const Config: Schema<Config> = Schema.object({
       .default(0.25),
     cycle: Schema.union(['day', 'week', 'month'])
       .description('结算周期（day=日，week=周，month=月）')
-      .default('day')
+      .default('day'),
+    model: InterestModelSchema
+      .description('计息模式'),
+    tiers: InterestTiers
+      .description('阶梯利率：按用户活期总余额分档边际计息，如 1000 以内 0.5%、1000~100000 部分 0.2%、超出部分 0.05%；留空则使用统一利率'),
+    ratePolicy: Schema.union([
+      Schema.const('follow').description('跟随：调整利率、周期或计息模式后，已有活期记录从下个结算周期起按新配置计息'),
+      Schema.const('locked').description('锁定：已有活期记录沿用存入时的利率，仅新存入的记录使用新配置')
+    ]).description('活期利率变更策略（定期记录始终锁定到期满）').default('follow')
   }).description('活期利息配置'),
-  fixedInterest: Schema.array(Schema.object({
-    name: Schema.string()
-      .description('方案名称')
+  fixedInterest: Schema.array(FixedPlanSchema).description('定期利息方案配置').default([
+    { name: '周定期', rate: 4.35, cycle: 'week', model: 'compound', earlyPenaltyRate: 0, term: 1, interimInterest: 'accrue', minAmount: 0, maxAmount: 0, maxHolding: 0, tiers: [] },
+    { name: '月定期', rate: 50, cycle: 'month', model: 'compound', earlyPenaltyRate: 1, term: 1, interimInterest: 'accrue', minAmount: 0, maxAmount: 0, maxHolding: 0, tiers: [] }
+  ]),
+  currencies: Schema.array(Schema.object({
+    currency: Schema.string()
+      .description('货币类型')
       .required(),
+    name: Schema.string()
+      .description('显示名称（留空使用货币类型）'),
+    symbol: Schema.string()
+      .description('货币符号，如 ¥、G')
+      .default(''),
+    digits: Schema.natural()
+      .max(6)
+      .description('金额精度（小数位数，留空使用 precision 配置）'),
+    enabled: Schema.boolean()
+      .description('是否启用')
+      .default(true),
+    demandRate: Schema.number()
+      .description('活期利率（%，留空使用 demandInterest.rate）'),
+    fixedInterest: Schema.array(FixedPlanSchema)
+      .description('该货币的定期方案（留空使用全局定期方案）')
+      .default([])
+  })).description('货币列表：配置后命令仅接受列表中已启用的货币；留空则不限制货币类型').default([]),
+  exchange: Schema.object({
+    enabled: Schema.boolean()
+      .description('是否启用货币兑换（活期之间兑换）')
+      .default(false),
+    provider: Schema.string()
+      .description('汇率来源：config=使用下方汇率表；其他值为其他插件通过 registerExchangeRateProvider 注册的汇率提供者名称')
+      .default('config'),
+    spread: Schema.number()
+      .min(0)
+      .max(100)
+      .description('兑换点差（%），从兑换所得中扣除并归入银行金库')
+      .default(1),
+    rates: Schema.array(Schema.object({
+      from: Schema.string()
+        .description('源货币')
+        .required(),
+      to: Schema.string()
+        .description('目标货币')
+        .required(),
+      rate: Schema.number()
+        .description('汇率：1 单位源货币可兑换的目标货币数量')
+        .required()
+    })).role('table').description('汇率表（未配置反向汇率时按倒数计算）').default([])
+  }).description('货币兑换配置'),
+  loan: Schema.object({
+    enabled: Schema.boolean()
+      .description('是否启用贷款（利息计提与逾期扣款由每日结算任务执行）')
+      .default(false),
+    products: Schema.array(Schema.object({
+      name: Schema.string()
+        .description('产品名称')
+        .required(),
+      rate: Schema.number()
+        .min(0)
+        .description('年利率（%），按日计息')
+        .required(),
+      term: Schema.natural()
+        .min(1)
+        .description('期限（天）')
+        .required(),
+      overdueRate: Schema.number()
+        .min(0)
+        .description('逾期罚息（年利率 %，在正常利率基础上加收）')
+        .default(0),
+      maxRatio: Schema.number()
+        .min(0)
+        .description('可贷额度占用户累计净存入（存款减取款，借款存入的部分不计）的比例（%）')
+        .default(50),
+      maxAmount: Schema.natural()
+        .description('单个用户在该产品下的最高未还本金（0 表示不限）')
+        .default(0)
+    })).description('贷款产品').default([
+      { name: '短期贷', rate: 18, term: 7, overdueRate: 18, maxRatio: 50, maxAmount: 0 },
+      { name: '月度贷', rate: 12, term: 30, overdueRate: 12, maxRatio: 100, maxAmount: 0 }
+    ]),
+    pledgeLtv: Schema.number()
+      .min(0)
+      .max(100)
+      .description('定期质押贷款的质押率（%）：可借金额不超过定期本金 × 质押率，0 表示不开放质押；需同时启用利息功能（enableInterest）')
+      .default(70),
+    pledgeRate: Schema.number()
+      .min(0)
+      .description('定期质押贷款的年利率（%），按日计息，到期日为质押定期的到期日')
+      .default(6)
+  }).description('贷款配置'),
+  overdraft: Schema.object({
+    enabled: Schema.boolean()
+      .description('是否开放活期透支（用户通过 bank.overdraft on 自行开通；利息计提与自动还款由每日结算任务执行）')
+      .default(false),
     rate: Schema.number()
-      .description('利率（%）')
-      .required(),
-    cycle: Schema.union(['day', 'week', 'month'])
-      .description('结算周期（day=日，week=周，month=月）')
-      .required()
-  })).description('定期利息方案配置').default([
-    { name: '周定期', rate: 4.35, cycle: 'week' },
-    { name: '月定期', rate: 50, cycle: 'month' }
-  ])
+      .min(0)
+      .description('透支年利率（%），按日计息')
+      .default(18),
+    ratio: Schema.number()
+      .min(0)
+      .description('未由管理员单独设置额度时，透支额度 = 近期日均活期余额 × ratio%（0 表示仅使用管理员设置的额度）')
+      .default(50),
+    averageDays: Schema.natural()
+      .min(1)
+      .description('计算日均活期余额的天数')
+      .default(30),
+    maxLimit: Schema.natural()
+      .description('按日均余额计算的透支额度上限（0 表示不限）')
+      .default(0)
+  }).description('活期透支配置'),
+  credit: Schema.object({
+    enabled: Schema.boolean()
+      .description('是否计算信用分（由每日结算任务根据存款时长、日均活期余额、定期持有到期、按时还款与透支频率重新计算）')
+      .default(false),
+    averageDays: Schema.natural()
+      .min(1)
+      .description('计算日均活期余额与透支天数的天数')
+      .default(30)
+  }).description('信用分配置'),
+  treasury: Schema.object({
+    mode: Schema.union([
+      Schema.const('deficit').description('照常支付，金库余额可为负'),
+      Schema.const('pause').description('余额不足以支付某笔利息时，该笔本期利息不发放'),
+      Schema.const('prorate').description('按金库余额与当日应付利息总额的比例发放')
+    ])
+      .description('所有利息由银行金库支付；金库余额不足时的处理方式')
+      .default('deficit')
+  }).description('银行金库配置'),
+  idempotencyExpire: Schema.natural()
+    .description('API 幂等键有效期（小时），有效期内使用相同幂等键的重复调用直接返回首次结果')
+    .default(24),
+  currencyBackend: Schema.object({
+    type: Schema.string()
+      .description('现金后端：monetary=使用 koishi-plugin-monetary 服务；table=按下列表名与字段名直接读写数据表；其他值为其他插件通过 registerCurrencyBackend 注册的后端名称')
+      .default('monetary'),
+    table: Schema.string()
+      .description('货币表名（仅 table 后端）')
+      .default('monetary'),
+    keyField: Schema.string()
+      .description('用户ID字段名（仅 table 后端）')
+      .default('uid'),
+    currencyField: Schema.string()
+      .description('货币类型字段名（仅 table 后端，留空表示该表只有一种货币）')
+      .default('currency'),
+    valueField: Schema.string()
+      .description('余额字段名（仅 table 后端）')
+      .default('value')
+  }).description('现金后端配置'),
+  standingOrder: Schema.object({
+    enabled: Schema.boolean()
+      .description('是否启用定时任务（周期存款/转账），由每日结算任务执行')
+      .default(false),
+    maxPerUser: Schema.natural()
+      .description('每位用户最多可设置的有效定时任务数')
+      .default(5),
+    maxFailures: Schema.natural()
+      .description('连续执行失败多少次后自动暂停该任务')
+      .default(3)
+  }).description('定时任务配置')
 })
 
 // 依赖注入：声明插件需要的服务
 export const inject = {
   required: ['database'],  // 必须依赖数据库服务
-  optional: ['puppeteer', 'monetaryBank']  // 可选依赖puppeteer和monetaryBank（热重载支持）
+  optional: ['puppeteer', 'monetaryBank', 'monetary']  // 可选依赖puppeteer、monetaryBank（热重载支持）和monetary（内置现金后端）
 }
 
 // 创建日志记录器
@@ -74,6 +433,9 @@ const logger = new Logger('[monetary-bank]')
 // 全局 debug 开关（由配置控制），用于控制是否打印 info/success 级别日志
 let debugEnabled = true
 
+// 日期计算设置（由配置控制）：时区与按周结算的锚定星期
+let dateSettings: { timezone: string; weekAnchor: number } = { timezone: '', weekAnchor: 1 }
+
 function logInfo(...args: any[]) {
   if (debugEnabled) {
     // 使用 apply 保证与不同 Logger 签名兼容
@@ -92,14 +454,38 @@ function logSuccess(...args: any[]) {
 /**
  * 数据库表结构声明
  * monetary_bank_int 表用于记录所有存款（活期和定期）
+ * monetary_bank_tx 表用于记录所有资金变动流水
+ * monetary_bank_idem 表用于记录 API 幂等键
+ * monetary_bank_order 表用于记录定时任务（周期存款/转账）
+ * monetary_bank_meta 表用于记录插件运行状态（如最近结算日期）
+ * monetary_bank_rate 表用于记录利率变更历史
+ * monetary_bank_treasury 表用于记录银行金库余额（支付利息，收取点差、违约金与贷款/透支利息）
+ * monetary_bank_treasury_tx 表用于记录金库资金流水
+ * monetary_bank_loan 表用于记录贷款
+ * monetary_bank_overdraft 表用于记录活期透支账户
+ * monetary_bank_snapshot 表用于记录每日活期余额快照
+ * monetary_bank_credit 表用于记录用户信用分
  */
 declare module 'koishi' {
   interface Tables {
     monetary_bank_int: MonetaryBankInterest
+    monetary_bank_tx: MonetaryBankTransaction
+    monetary_bank_idem: MonetaryBankIdempotency
+    monetary_bank_order: MonetaryBankStandingOrder
+    monetary_bank_meta: MonetaryBankMeta
+    monetary_bank_rate: MonetaryBankRate
+    monetary_bank_treasury: MonetaryBankTreasury
+    monetary_bank_treasury_tx: MonetaryBankTreasuryFlow
+    monetary_bank_loan: MonetaryBankLoan
+    monetary_bank_overdraft: MonetaryBankOverdraft
+    monetary_bank_snapshot: MonetaryBankSnapshot
+    monetary_bank_credit: MonetaryBankCredit
+    monetary: MonetaryAccount  // koishi-plugin-monetary 的货币表（由该插件创建）
   }
   
   interface Context {
     monetaryBank: MonetaryBankAPI
+    monetary?: MonetaryService  // koishi-plugin-monetary 服务（可选，内置 monetary 现金后端使用）
     puppeteer?: any  // Puppeteer 服务（可选）
   }
   
@@ -130,111 +516,544 @@ export class MonetaryBankAPI {
    * @param uid 用户ID
    * @param currency 货币类型
    * @param amount 存款金额
+   * @param idempotencyKey 可选幂等键（按用户区分），有效期内以相同参数重复调用直接返回首次成功结果
    * @returns 成功返回 { success: true, newCash, newBalance }，失败返回 { success: false, error }
    */
-  async deposit(uid: number, currency: string, amount: number): Promise<{ success: boolean; newCash?: number; newBalance?: { total: number; demand: number; fixed: number }; error?: string }> {
+  async deposit(uid: number, currency: string, amount: number, idempotencyKey?: string): Promise<{ success: boolean; newCash?: number; newBalance?: { total: number; demand: number; fixed: number }; error?: string }> {
+    return await withIdempotencyKey(this.ctx, this.config, 'deposit', uid, [currency, amount], idempotencyKey, () => this.performDeposit(uid, currency, amount))
+  }
+
+  private async performDeposit(uid: number, currency: string, amount: number): Promise<{ success: boolean; newCash?: number; newBalance?: { total: number; demand: number; fixed: number }; error?: string }> {
     try {
       if (!amount || amount <= 0) {
         return { success: false, error: '金额必须大于0' }
       }
 
-      // 检查现金余额
-      let cash = await getMonetaryBalance(this.ctx, uid, currency)
-      if (cash === null) {
-        const created = await createMonetaryUser(this.ctx, uid, currency)
-        if (!created) return { success: false, error: '无法验证/创建主货币账户' }
-        cash = 0
-      }
+      // 持有用户资金锁，保证余额检查与扣款之间不被其他操作插入
+      return await withUserLock([{ uid, currency }], async () => {
+        // 检查现金余额
+        let cash = await getMonetaryBalance(uid, currency)
+        if (cash === null) {
+          const created = await createMonetaryUser(uid, currency)
+          if (!created) return { success: false, error: '无法验证/创建主货币账户' }
+          cash = 0
+        }
 
-      if (cash < amount) {
-        return { success: false, error: `现金不足，当前现金：${cash} ${currency}` }
-      }
+        if (cash < amount) {
+          return { success: false, error: `现金不足，当前现金：${cash} ${currency}` }
+        }
 
-      // 扣除现金
-      const newCash = await changeMonetary(this.ctx, uid, currency, -amount)
-      if (newCash === null) {
-        return { success: false, error: '扣除现金失败' }
-      }
+        // 有未还透支时存款优先偿还透支（先利息后本金），剩余部分存入活期
+        const [overdraft] = await this.ctx.database.get('monetary_bank_overdraft', { uid, currency })
+        const repay = overdraft ? Math.min(amount, normalizeAmount(overdraft.used + overdraft.interest)) : 0
+        const demandAmount = normalizeAmount(amount - repay)
 
-      // 创建活期记录
-      const demandConfig = this.config.demandInterest || { enabled: true, rate: 0.25, cycle: 'day' }
-      const settlementDate = calculateNextSettlementDate(demandConfig.cycle as any, true)
-      
-      await this.ctx.database.create('monetary_bank_int', {
-        uid,
-        currency,
-        amount,
-        type: 'demand',
-        rate: demandConfig.rate || 0.25,
-        cycle: demandConfig.cycle as any || 'day',
-        settlementDate,
-        extendRequested: false
-      })
+        // 扣除现金、偿还透支并创建活期记录，任一步失败则整体回滚
+        const { newCash, record, repaid } = await withRollback(async (rollback) => {
+          const newCash = await changeCash(this.ctx, uid, currency, -amount, rollback)
+          const repaid = repay > 0 ? await repayOverdraft(this.ctx, overdraft, repay, rollback) : null
+          const record = demandAmount > 0 ? await createDemandRecord(this.ctx, this.config, uid, currency, demandAmount, rollback) : null
+          return { newCash, record, repaid }
+        })
+        await recordTransaction(this.ctx, { uid, currency, type: 'deposit', amount, recordId: record?.id })
+        if (repaid) {
+          await recordTransaction(this.ctx, { uid, currency, type: 'overdraft_repay', amount: repay, note: `存款偿还透支（利息 ${repaid.interestPaid}，本金 ${repaid.principalPaid}）` })
+        }
       
-      const newBalance = await getBankBalance(this.ctx, uid, currency)
-      logInfo(`API存款: uid=${uid}, amount=${amount}`)
+        const newBalance = await getBankBalance(this.ctx, uid, currency)
+        logInfo(`API存款: uid=${uid}, amount=${amount}`)
 
-      return { success: true, newCash, newBalance }
+        return { success: true, newCash, newBalance }
+      })
     } catch (error) {
+      if (error instanceof BankOperationError) return { success: false, error: error.message }
       logger.error('API存款失败:', error)
       return { success: false, error: '存款操作失败' }
     }
   }
 
   /**
-   * 取款（从银行取出到用户现金，仅可取活期）
+   * 取款（从银行取出到用户现金，仅可取活期；活期不足且已开通透支时，不足部分在透支额度内透支）
    * @param uid 用户ID
    * @param currency 货币类型
    * @param amount 取款金额
+   * @param idempotencyKey 可选幂等键（按用户区分），有效期内以相同参数重复调用直接返回首次成功结果
    * @returns 成功返回 { success: true, newCash, newBalance }，失败返回 { success: false, error }
    */
-  async withdraw(uid: number, currency: string, amount: number): Promise<{ success: boolean; newCash?: number; newBalance?: { total: number; demand: number; fixed: number }; error?: string }> {
+  async withdraw(uid: number, currency: string, amount: number, idempotencyKey?: string): Promise<{ success: boolean; newCash?: number; newBalance?: { total: number; demand: number; fixed: number }; error?: string }> {
+    return await withIdempotencyKey(this.ctx, this.config, 'withdraw', uid, [currency, amount], idempotencyKey, () => this.performWithdraw(uid, currency, amount))
+  }
+
+  private async performWithdraw(uid: number, currency: string, amount: number): Promise<{ success: boolean; newCash?: number; newBalance?: { total: number; demand: number; fixed: number }; error?: string }> {
     try {
       if (!amount || amount <= 0) {
         return { success: false, error: '金额必须大于0' }
       }
 
-      // 查询活期余额
-      const balance = await getBankBalance(this.ctx, uid, currency)
+      // 持有用户资金锁，保证余额检查与扣款之间不被其他操作插入
+      return await withUserLock([{ uid, currency }], async () => {
+        // 查询活期余额，不足部分检查透支额度
+        const balance = await getBankBalance(this.ctx, uid, currency)
+        const overdraw = balance.demand < amount ? normalizeAmount(amount - balance.demand) : 0
       
-      if (balance.demand < amount) {
-        return { success: false, error: `可用余额不足，当前活期：${balance.demand} ${currency}` }
+        if (overdraw > 0) {
+          const overdraft = await getOverdraftStatus(this.ctx, this.config, uid, currency)
+          if (!overdraft.enabled) {
+            return { success: false, error: `可用余额不足，当前活期：${balance.demand} ${currency}` }
+          }
+          if (overdraw > overdraft.available) {
+            return { success: false, error: `可用余额不足，当前活期：${balance.demand} ${currency}，剩余透支额度：${overdraft.available} ${currency}` }
+          }
+        }
+
+        // 按时间顺序扣除活期记录（不足部分透支）并增加现金，任一步失败则整体回滚
+        const newCash = await withRollback(async (rollback) => {
+          if (amount > overdraw) {
+            await deductDemandRecords(this.ctx, uid, currency, normalizeAmount(amount - overdraw), rollback)
+          }
+          if (overdraw > 0) {
+            await drawOverdraft(this.ctx, uid, currency, overdraw, rollback)
+          }
+          return await changeCash(this.ctx, uid, currency, amount, rollback)
+        })
+        await recordTransaction(this.ctx, { uid, currency, type: 'withdraw', amount, note: overdraw > 0 ? `其中透支 ${overdraw}` : undefined })
+
+        const newBalance = await getBankBalance(this.ctx, uid, currency)
+        logInfo(`API取款: uid=${uid}, amount=${amount}`)
+
+        return { success: true, newCash, newBalance }
+      })
+    } catch (error) {
+      if (error instanceof BankOperationError) return { success: false, error: error.message }
+      logger.error('API取款失败:', error)
+      return { success: false, error: '取款操作失败' }
+    }
+  }
+
+  /**
+   * 转账（从转出方活期转入接收方活期）
+   * @param fromUid 转出方用户ID
+   * @param toUid 接收方用户ID（需已绑定平台账号）
+   * @param currency 货币类型
+   * @param amount 转账金额
+   * @param idempotencyKey 可选幂等键（按用户区分），有效期内以相同参数重复调用直接返回首次成功结果
+   * @returns 成功返回 { success: true, newBalance, targetBalance }（分别为转出方与接收方余额），失败返回 { success: false, error }
+   */
+  async transfer(fromUid: number, toUid: number, currency: string, amount: number, idempotencyKey?: string): Promise<{ success: boolean; newBalance?: { total: number; demand: number; fixed: number }; targetBalance?: { total: number; demand: number; fixed: number }; error?: string }> {
+    return await withIdempotencyKey(this.ctx, this.config, 'transfer', fromUid, [toUid, currency, amount], idempotencyKey, () => this.performTransfer(fromUid, toUid, currency, amount))
+  }
+
+  private async performTransfer(fromUid: number, toUid: number, currency: string, amount: number): Promise<{ success: boolean; newBalance?: { total: number; demand: number; fixed: number }; targetBalance?: { total: number; demand: number; fixed: number }; error?: string }> {
+    try {
+      if (!amount || amount <= 0) {
+        return { success: false, error: '金额必须大于0' }
+      }
+      if (fromUid === toUid) {
+        return { success: false, error: '不能向自己转账' }
+      }
+      if (resolveCurrency(this.config, currency) !== currency) {
+        return { success: false, error: `不支持的货币：${currency}` }
+      }
+      // 与 bank.transfer 命令一致，只能转给已通过 Koishi 绑定平台账号的用户
+      const [binding] = await this.ctx.database.get('binding', { aid: toUid }, ['aid'])
+      if (!binding) {
+        return { success: false, error: '接收方用户不存在' }
       }
 
-      // 按时间顺序扣除活期记录
-      let remaining = amount
-      const demandRecords = await this.ctx.database
-        .select('monetary_bank_int')
-        .where({ uid, currency, type: 'demand' })
-        .orderBy('settlementDate', 'asc')
-        .execute()
-      
-      for (const record of demandRecords) {
-        if (remaining <= 0) break
-        
-        if (record.amount <= remaining) {
-          remaining -= record.amount
-          await this.ctx.database.remove('monetary_bank_int', { id: record.id })
-        } else {
-          const newAmount = record.amount - remaining
-          await this.ctx.database.set('monetary_bank_int', { id: record.id }, { amount: newAmount })
-          remaining = 0
+      // 同时持有双方的资金锁
+      return await withUserLock([{ uid: fromUid, currency }, { uid: toUid, currency }], async () => {
+        // 扣除转出方活期并为接收方创建活期记录，任一步失败则整体回滚
+        const record = await withRollback(async (rollback) => {
+          await deductDemandRecords(this.ctx, fromUid, currency, amount, rollback)
+          return await createDemandRecord(this.ctx, this.config, toUid, currency, amount, rollback)
+        })
+        await recordTransaction(this.ctx, { uid: fromUid, currency, type: 'transfer_out', amount, note: `转给 uid=${toUid}` })
+        await recordTransaction(this.ctx, { uid: toUid, currency, type: 'transfer_in', amount, recordId: record.id, note: `来自 uid=${fromUid}` })
+
+        const newBalance = await getBankBalance(this.ctx, fromUid, currency)
+        const targetBalance = await getBankBalance(this.ctx, toUid, currency)
+        logInfo(`API转账: from=${fromUid}, to=${toUid}, amount=${amount}`)
+
+        return { success: true, newBalance, targetBalance }
+      })
+    } catch (error) {
+      if (error instanceof BankOperationError) return { success: false, error: error.message }
+      logger.error('API转账失败:', error)
+      return { success: false, error: '转账操作失败' }
+    }
+  }
+
+  /**
+   * 货币兑换（从用户 from 货币的活期兑换为 to 货币的活期）
+   * 按当前汇率与点差计算兑换所得，点差与取整零头归入银行金库
+   * @param uid 用户ID
+   * @param from 源货币
+   * @param to 目标货币
+   * @param amount 兑换金额（源货币）
+   * @param idempotencyKey 可选幂等键（按用户区分），有效期内以相同参数重复调用直接返回首次成功结果
+   * @returns 成功返回 { success: true, received, fee, rate, newBalance, targetBalance }（分别为源货币与目标货币余额），失败返回 { success: false, error }
+   */
+  async exchange(uid: number, from: string, to: string, amount: number, idempotencyKey?: string): Promise<{ success: boolean; received?: number; fee?: number; rate?: number; newBalance?: { total: number; demand: number; fixed: number }; targetBalance?: { total: number; demand: number; fixed: number }; error?: string }> {
+    return await withIdempotencyKey(this.ctx, this.config, 'exchange', uid, [from, to, amount], idempotencyKey, () => this.performExchange(uid, from, to, amount))
+  }
+
+  private async performExchange(uid: number, from: string, to: string, amount: number): Promise<{ success: boolean; received?: number; fee?: number; rate?: number; newBalance?: { total: number; demand: number; fixed: number }; targetBalance?: { total: number; demand: number; fixed: number }; error?: string }> {
+    try {
+      if (!this.config.exchange?.enabled) {
+        return { success: false, error: '货币兑换功能未启用' }
+      }
+      if (!amount || amount <= 0) {
+        return { success: false, error: '金额必须大于0' }
+      }
+      if (from === to) {
+        return { success: false, error: '源货币与目标货币不能相同' }
+      }
+      for (const currency of [from, to]) {
+        if (resolveCurrency(this.config, currency) !== currency) {
+          return { success: false, error: `不支持的货币：${currency}` }
         }
       }
-      
-      // 增加现金
-      const newCash = await changeMonetary(this.ctx, uid, currency, amount)
-      if (newCash === null) {
-        return { success: false, error: '转账到现金失败' }
+
+      const quote = await quoteExchange(this.config, from, to, amount)
+
+      // 同时持有两种货币的资金锁
+      return await withUserLock([{ uid, currency: from }, { uid, currency: to }], async () => {
+        // 扣除源货币活期、存入目标货币活期并将点差计入金库，任一步失败则整体回滚
+        const record = await withRollback(async (rollback) => {
+          await deductDemandRecords(this.ctx, uid, from, amount, rollback)
+          const record = await createDemandRecord(this.ctx, this.config, uid, to, quote.net, rollback)
+          if (quote.fee > 0) {
+            await changeTreasury(this.ctx, to, quote.fee, rollback, { type: 'exchange_spread', uid, note: `${amount} ${from} → ${quote.net} ${to}` })
+          }
+          return record
+        })
+        const note = `${amount} ${from} → ${quote.net} ${to}，汇率 ${quote.rate}，点差 ${quote.fee} ${to}`
+        await recordTransaction(this.ctx, { uid, currency: from, type: 'exchange_out', amount, note })
+        await recordTransaction(this.ctx, { uid, currency: to, type: 'exchange_in', amount: quote.net, recordId: record.id, note })
+
+        const newBalance = await getBankBalance(this.ctx, uid, from)
+        const targetBalance = await getBankBalance(this.ctx, uid, to)
+        logInfo(`API兑换: uid=${uid}, ${note}`)
+
+        return { success: true, received: quote.net, fee: quote.fee, rate: quote.rate, newBalance, targetBalance }
+      })
+    } catch (error) {
+      if (error instanceof BankOperationError) return { success: false, error: error.message }
+      logger.error('API兑换失败:', error)
+      return { success: false, error: '兑换操作失败' }
+    }
+  }
+
+  /**
+   * 申请贷款（借款金额转入用户现金）
+   * @param uid 用户ID
+   * @param currency 货币类型
+   * @param productName 贷款产品名称
+   * @param amount 借款金额
+   * @param idempotencyKey 可选幂等键（按用户区分），有效期内以相同参数重复调用直接返回首次成功结果
+   * @returns 成功返回 { success: true, loan, newCash }，失败返回 { success: false, error }
+   */
+  async applyLoan(uid: number, currency: string, productName: string, amount: number, idempotencyKey?: string): Promise<{ success: boolean; loan?: MonetaryBankLoan; newCash?: number; error?: string }> {
+    return await withIdempotencyKey(this.ctx, this.config, 'applyLoan', uid, [currency, productName, amount], idempotencyKey, () => this.performApplyLoan(uid, currency, productName, amount))
+  }
+
+  private async performApplyLoan(uid: number, currency: string, productName: string, amount: number): Promise<{ success: boolean; loan?: MonetaryBankLoan; newCash?: number; error?: string }> {
+    try {
+      if (!this.config.loan?.enabled) {
+        return { success: false, error: '贷款功能未启用' }
+      }
+      if (!amount || amount <= 0) {
+        return { success: false, error: '金额必须大于0' }
+      }
+      if (resolveCurrency(this.config, currency) !== currency) {
+        return { success: false, error: `不支持的货币：${currency}` }
       }
+      const product = (this.config.loan.products || []).find(p => p.name === productName)
+      if (!product) {
+        return { success: false, error: `贷款产品不存在：${productName}` }
+      }
+
+      // 持有用户资金锁，保证额度检查与放款之间不被其他操作插入
+      return await withUserLock([{ uid, currency }], async () => {
+        const quota = await getLoanQuota(this.ctx, uid, currency, product)
+        if (amount > quota.available) {
+          return { success: false, error: `超出可贷额度，当前可贷：${quota.available} ${currency}` }
+        }
 
-      const newBalance = await getBankBalance(this.ctx, uid, currency)
-      logInfo(`API取款: uid=${uid}, amount=${amount}`)
+        // 创建贷款记录并放款到现金，任一步失败则整体回滚
+        const today = startOfDay()
+        const { loan, newCash } = await withRollback(async (rollback) => {
+          const loan = await this.ctx.database.create('monetary_bank_loan', {
+            uid,
+            currency,
+            productName: product.name,
+            principal: amount,
+            outstanding: amount,
+            interest: 0,
+            rate: product.rate,
+            overdueRate: product.overdueRate ?? 0,
+            dueDate: addDays(today, product.term),
+            status: 'active',
+            accruedAt: today,
+            createdAt: new Date()
+          })
+          rollback.add(`创建贷款记录 id=${loan.id}`, () => this.ctx.database.remove('monetary_bank_loan', { id: loan.id }))
+          const newCash = await changeCash(this.ctx, uid, currency, amount, rollback)
+          return { loan, newCash }
+        })
+        await recordTransaction(this.ctx, { uid, currency, type: 'loan_disburse', amount, note: `贷款 #${loan.id}（${product.name}），到期日 ${formatDate(loan.dueDate)}` })
+        logInfo(`API贷款: uid=${uid}, 产品=${product.name}, amount=${amount}`)
 
-      return { success: true, newCash, newBalance }
+        return { success: true, loan, newCash }
+      })
     } catch (error) {
-      logger.error('API取款失败:', error)
-      return { success: false, error: '取款操作失败' }
+      if (error instanceof BankOperationError) return { success: false, error: error.message }
+      logger.error('API贷款失败:', error)
+      return { success: false, error: '贷款操作失败' }
+    }
+  }
+
+  /**
+   * 以定期存款质押申请贷款（借款金额转入用户现金）
+   * 借款不超过定期本金 × 质押率，到期日为定期的到期日；质押期间定期不可延期或提前支取，定期到期时优先偿还该贷款
+   * @param uid 用户ID
+   * @param recordId 定期记录ID
+   * @param amount 借款金额
+   * @param idempotencyKey 可选幂等键（按用户区分），有效期内以相同参数重复调用直接返回首次成功结果
+   * @returns 成功返回 { success: true, loan, newCash }，失败返回 { success: false, error }
+   */
+  async pledgeLoan(uid: number, recordId: number, amount: number, idempotencyKey?: string): Promise<{ success: boolean; loan?: MonetaryBankLoan; newCash?: number; error?: string }> {
+    return await withIdempotencyKey(this.ctx, this.config, 'pledgeLoan', uid, [recordId, amount], idempotencyKey, () => this.performPledgeLoan(uid, recordId, amount))
+  }
+
+  private async performPledgeLoan(uid: number, recordId: number, amount: number): Promise<{ success: boolean; loan?: MonetaryBankLoan; newCash?: number; error?: string }> {
+    try {
+      // 质押贷款依赖定期到期结算偿还，未启用利息功能时不会处理到期
+      if (!this.config.loan?.enabled || !this.config.loan.pledgeLtv || !this.config.enableInterest) {
+        return { success: false, error: '定期质押贷款未开放' }
+      }
+      if (!amount || amount <= 0) {
+        return { success: false, error: '金额必须大于0' }
+      }
+      const [target] = await this.ctx.database.get('monetary_bank_int', { id: recordId, uid, type: 'fixed' })
+      if (!target) {
+        return { success: false, error: `未找到编号为 ${recordId} 的定期存款` }
+      }
+      const currency = target.currency
+
+      // 持有用户资金锁，加锁后重新读取定期记录（排队期间可能已到期、被支取或已质押）
+      return await withUserLock([{ uid, currency }], async () => {
+        const [record] = await this.ctx.database.get('monetary_bank_int', { id: recordId })
+        if (!record) {
+          return { success: false, error: '该定期存款已不存在（可能已到期转为活期）' }
+        }
+        if (record.pledged) {
+          return { success: false, error: '该定期存款已质押' }
+        }
+        if (record.extendRequested) {
+          return { success: false, error: '该定期存款已申请延期，请先取消延期' }
+        }
+        const limit = getPledgeLimit(this.config, record)
+        if (amount > limit) {
+          return { success: false, error: `超出质押额度，最多可借：${limit} ${currency}` }
+        }
+        const today = startOfDay()
+        const dueDate = startOfDay(new Date(record.maturityDate || record.settlementDate))
+        if (dueDate <= today) {
+          return { success: false, error: '该定期存款即将到期，不能质押' }
+        }
+
+        // 创建贷款记录、标记定期质押并放款到现金，任一步失败则整体回滚
+        const { loan, newCash } = await withRollback(async (rollback) => {
+          const loan = await this.ctx.database.create('monetary_bank_loan', {
+            uid,
+            currency,
+            productName: PLEDGE_LOAN_NAME,
+            principal: amount,
+            outstanding: amount,
+            interest: 0,
+            rate: this.config.loan.pledgeRate ?? 6,
+            overdueRate: 0,
+            dueDate,
+            status: 'active',
+            accruedAt: today,
+            createdAt: new Date(),
+            collateralId: record.id
+          })
+          rollback.add(`创建贷款记录 id=${loan.id}`, () => this.ctx.database.remove('monetary_bank_loan', { id: loan.id }))
+          await this.ctx.database.set('monetary_bank_int', { id: record.id }, { pledged: true })
+          rollback.add(`质押定期 id=${record.id}`, () => this.ctx.database.set('monetary_bank_int', { id: record.id }, { pledged: false }))
+          const newCash = await changeCash(this.ctx, uid, currency, amount, rollback)
+          return { loan, newCash }
+        })
+        await recordTransaction(this.ctx, { uid, currency, type: 'loan_disburse', amount, recordId: record.id, note: `贷款 #${loan.id}（质押定期 #${record.id}），到期日 ${formatDate(loan.dueDate)}` })
+        logInfo(`API质押贷款: uid=${uid}, 定期=${record.id}, amount=${amount}`)
+
+        return { success: true, loan, newCash }
+      })
+    } catch (error) {
+      if (error instanceof BankOperationError) return { success: false, error: error.message }
+      logger.error('API质押贷款失败:', error)
+      return { success: false, error: '贷款操作失败' }
+    }
+  }
+
+  /**
+   * 偿还贷款（从用户现金扣款，先还利息再还本金）
+   * @param uid 用户ID
+   * @param loanId 贷款编号
+   * @param amount 还款金额，超过应还总额时只扣除应还总额
+   * @param idempotencyKey 可选幂等键（按用户区分），有效期内以相同参数重复调用直接返回首次成功结果
+   * @returns 成功返回 { success: true, repaid, interestPaid, principalPaid, loan, newCash }，失败返回 { success: false, error }
+   */
+  async repayLoan(uid: number, loanId: number, amount: number, idempotencyKey?: string): Promise<{ success: boolean; repaid?: number; interestPaid?: number; principalPaid?: number; loan?: MonetaryBankLoan; newCash?: number; error?: string }> {
+    return await withIdempotencyKey(this.ctx, this.config, 'repayLoan', uid, [loanId, amount], idempotencyKey, () => this.performRepayLoan(uid, loanId, amount))
+  }
+
+  private async performRepayLoan(uid: number, loanId: number, amount: number): Promise<{ success: boolean; repaid?: number; interestPaid?: number; principalPaid?: number; loan?: MonetaryBankLoan; newCash?: number; error?: string }> {
+    try {
+      if (!this.config.loan?.enabled) {
+        return { success: false, error: '贷款功能未启用' }
+      }
+      if (!amount || amount <= 0) {
+        return { success: false, error: '金额必须大于0' }
+      }
+      const [target] = await this.ctx.database.get('monetary_bank_loan', { id: loanId, uid })
+      if (!target || target.status === 'repaid') {
+        return { success: false, error: `未找到编号为 ${loanId} 的未结清贷款` }
+      }
+      const currency = target.currency
+
+      // 持有用户资金锁，加锁后重新读取贷款（排队期间可能已被逾期扣款偿还）
+      return await withUserLock([{ uid, currency }], async () => {
+        const [loan] = await this.ctx.database.get('monetary_bank_loan', { id: loanId })
+        if (!loan || loan.status === 'repaid') {
+          return { success: false, error: `贷款 #${loanId} 已结清` }
+        }
+
+        const pay = Math.min(amount, getLoanOwed(loan))
+        const cash = await getMonetaryBalance(uid, currency) ?? 0
+        if (cash < pay) {
+          return { success: false, error: `现金不足，当前现金：${cash} ${currency}，本次需还：${pay} ${currency}` }
+        }
+
+        // 扣除现金并偿还贷款，任一步失败则整体回滚
+        const { newCash, result } = await withRollback(async (rollback) => {
+          const newCash = await changeCash(this.ctx, uid, currency, -pay, rollback)
+          const result = await applyLoanPayment(this.ctx, loan, pay, rollback)
+          return { newCash, result }
+        })
+        await recordTransaction(this.ctx, { uid, currency, type: 'loan_repay', amount: pay, note: `贷款 #${loan.id} 还款（利息 ${result.interestPaid}，本金 ${result.principalPaid}）` })
+        logInfo(`API还款: uid=${uid}, loan=${loan.id}, amount=${pay}`)
+
+        return { success: true, repaid: pay, interestPaid: result.interestPaid, principalPaid: result.principalPaid, loan: result.loan, newCash }
+      })
+    } catch (error) {
+      if (error instanceof BankOperationError) return { success: false, error: error.message }
+      logger.error('API还款失败:', error)
+      return { success: false, error: '还款操作失败' }
+    }
+  }
+
+  /**
+   * 查询用户的贷款
+   * @param uid 用户ID
+   * @param currency 可选货币类型，不填查询全部货币
+   * @param includeRepaid 是否包含已结清的贷款
+   * @returns 贷款列表（按借款时间倒序）
+   */
+  async getLoans(uid: number, currency?: string, includeRepaid: boolean = false): Promise<MonetaryBankLoan[]> {
+    const query: Query.Expr<MonetaryBankLoan> = { uid }
+    if (currency) query.currency = currency
+    if (!includeRepaid) query.status = { $ne: 'repaid' }
+    return await this.ctx.database
+      .select('monetary_bank_loan')
+      .where(query)
+      .orderBy('id', 'desc')
+      .execute()
+  }
+
+  /**
+   * 查询用户的活期透支状态
+   * @param uid 用户ID
+   * @param currency 货币类型
+   * @returns 是否开通、透支额度、已透支本金、未还利息、应还总额与剩余可透支额度
+   */
+  async getOverdraft(uid: number, currency: string): Promise<OverdraftStatus> {
+    return await getOverdraftStatus(this.ctx, this.config, uid, currency)
+  }
+
+  /**
+   * 修改用户的活期透支设置
+   * @param uid 用户ID
+   * @param currency 货币类型
+   * @param options.enabled 开通或关闭透支（关闭后不能新增透支，已有透支仍需偿还）
+   * @param options.limit 透支额度，null 表示按日均活期余额规则计算
+   * @returns 成功返回 { success: true, overdraft }，失败返回 { success: false, error }
+   */
+  async setOverdraft(uid: number, currency: string, options: { enabled?: boolean; limit?: number | null }): Promise<{ success: boolean; overdraft?: OverdraftStatus; error?: string }> {
+    try {
+      if (!this.config.overdraft?.enabled) {
+        return { success: false, error: '透支功能未开放' }
+      }
+      if (typeof options.limit === 'number' && options.limit < 0) {
+        return { success: false, error: '透支额度不能为负数' }
+      }
+
+      await withUserLock([{ uid, currency }], () => updateOverdraftAccount(this.ctx, uid, currency, options))
+      logInfo(`API透支设置: uid=${uid}, currency=${currency}, enabled=${options.enabled}, limit=${options.limit}`)
+
+      return { success: true, overdraft: await getOverdraftStatus(this.ctx, this.config, uid, currency) }
+    } catch (error) {
+      logger.error('API透支设置失败:', error)
+      return { success: false, error: '透支设置失败' }
+    }
+  }
+
+  /**
+   * 查询用户信用分（每日结算时更新；尚未计算过的用户立即计算一次）
+   * @param uid 用户ID
+   * @returns 信用分（300-900）与各项计算因素，信用分功能未启用时返回 null
+   */
+  async getCreditScore(uid: number): Promise<MonetaryBankCredit | null> {
+    if (!this.config.credit?.enabled) return null
+    const [credit] = await this.ctx.database.get('monetary_bank_credit', { uid })
+    return credit || await computeCreditScore(this.ctx, this.config, uid, startOfDay())
+  }
+
+  /**
+   * 注册汇率提供者，注册后在配置项 exchange.provider 中填写该名称即可启用
+   * 同名提供者会被覆盖；内置的 config 不可覆盖
+   * @param name 提供者名称
+   * @param provider 提供者实现
+   * @returns 注销函数，建议在注册方插件卸载时调用
+   */
+  registerExchangeRateProvider(name: string, provider: ExchangeRateProvider): () => void {
+    if (name === 'config') {
+      throw new Error('汇率提供者名称 config 为内置提供者保留')
+    }
+    exchangeRateProviders.set(name, provider)
+    logInfo(`注册汇率提供者: ${name}`)
+    return () => {
+      if (exchangeRateProviders.get(name) === provider) exchangeRateProviders.delete(name)
+    }
+  }
+
+  /**
+   * 注册现金后端，注册后在配置项 currencyBackend.type 中填写该名称即可启用
+   * 同名后端会被覆盖；内置的 monetary 与 table 不可覆盖
+   * @param name 后端名称
+   * @param backend 后端实现
+   * @returns 注销函数，建议在注册方插件卸载时调用（如 ctx.on('dispose', dispose)）
+   */
+  registerCurrencyBackend(name: string, backend: CurrencyBackend): () => void {
+    if (name === 'monetary' || name === 'table') {
+      throw new Error(`现金后端名称 ${name} 为内置后端保留`)
+    }
+    currencyBackends.set(name, backend)
+    logInfo(`注册现金后端: ${name}`)
+    return () => {
+      if (currencyBackends.get(name) === backend) currencyBackends.delete(name)
     }
   }
 }
@@ -255,30 +1074,380 @@ export interface MonetaryBankInterest {
   extendRequested: boolean  // 是否申请延期（仅定期有效）
   nextRate?: number  // 延期后使用的利率（仅定期有效）
   nextCycle?: 'day' | 'week' | 'month'  // 延期后使用的周期（仅定期有效）
+  penaltyRate?: number  // 提前支取违约金比例（百分比，创建时按方案锁定，仅定期有效）
+  earnedInterest?: number  // 本存期内已发放的利息（仅定期有效，提前支取时按支取比例扣回）
+  planName?: string  // 定期方案名称（仅定期有效）
+  maturityDate?: Date  // 到期日期（仅定期有效；为空时视 settlementDate 为到期日）
+  interimInterest?: 'accrue' | 'payout'  // 存期内利息处理方式（仅定期有效）
+  nextPlanName?: string  // 延期后使用的方案名称（仅定期有效）
+  interestCarry?: string  // 上次结算取整后余下的利息零头（整数字符串，单位见 INTEREST_UNIT）
+  interestModel?: InterestModel  // 计息模式（创建时按方案锁定，为空视为 compound）
+  anchorDay?: number  // 按月结算的锚定日（1-31，小月按月末结算；为空时取上次结算日）
+  accruedInterest?: string  // 已按日计提、尚未发放的利息（整数字符串，单位见 INTEREST_UNIT，仅活期有效）
+  accruedAt?: Date  // 利息已计提到的日期（当天0点，仅活期有效）
+  pledged?: boolean  // 是否已质押给贷款（仅定期有效，质押期间不可延期或提前支取）
 }
 
 /**
- * 获取当前主题是否为深色模式
+ * 货币配置
  */
-function getTheme(config: Config): boolean {
-  if (config.themeMode === 'light') return false
-  if (config.themeMode === 'dark') return true
-  
-  // auto mode: 18:00 - 6:00 is dark
-  const hour = new Date().getHours()
-  return hour >= 18 || hour < 6
+type CurrencyConfig = Config['currencies'][number]
+
+/**
+ * 查找货币配置（未在货币列表中配置时返回 undefined）
+ */
+function getCurrencyConfig(config: Config, currency: string): CurrencyConfig | undefined {
+  return (config.currencies || []).find(c => c.currency === currency)
 }
 
 /**
- * 初始化数据库模型
- * 创建 monetary_bank_int 表用于存储所有存款记录（活期和定期）
+ * 解析用户输入的货币（支持货币类型或显示名称）
+ * 未配置货币列表时原样返回；配置了货币列表时仅接受其中已启用的货币，无效时返回 null
  */
-async function initDatabase(ctx: Context): Promise<boolean> {
-  try {
-    const tables = await ctx.database.tables
+function resolveCurrency(config: Config, input: string): string | null {
+  const list = config.currencies || []
+  if (!list.length) return input
+  const entry = list.find(c => c.currency === input) || list.find(c => c.name && c.name === input)
+  return entry && entry.enabled !== false ? entry.currency : null
+}
 
-    // 检查并创建 monetary_bank_int 表
-    if (tables && 'monetary_bank_int' in tables) {
+/**
+ * 生成货币无效时的提示（列出可用货币）
+ */
+function getInvalidCurrencyMessage(config: Config, input: string): string {
+  const available = (config.currencies || [])
+    .filter(c => c.enabled !== false)
+    .map(c => c.name ? `${c.currency}（${c.name}）` : c.currency)
+  return `不支持的货币：${input}。可用货币：${available.join('、') || '无'}`
+}
+
+/**
+ * 获取货币的显示名称与符号（未配置时显示名称为货币类型本身）
+ */
+function getCurrencyDisplay(config: Config, currency: string): { name: string; symbol: string } {
+  const entry = getCurrencyConfig(config, currency)
+  return { name: entry?.name || currency, symbol: entry?.symbol || '' }
+}
+
+/**
+ * 获取货币的活期利率（百分比）：优先使用货币单独配置的利率
+ */
+function getDemandRate(config: Config, currency: string): number {
+  return getCurrencyConfig(config, currency)?.demandRate ?? config.demandInterest?.rate ?? 0.25
+}
+
+/**
+ * 获取货币可用的定期方案：货币单独配置了方案时使用其方案，否则使用全局方案
+ */
+function getFixedPlans(config: Config, currency: string): FixedPlanConfig[] {
+  const plans = getCurrencyConfig(config, currency)?.fixedInterest
+  return plans?.length ? plans : config.fixedInterest || []
+}
+
+/**
+ * 交易流水类型
+ */
+export type TransactionType = 'deposit' | 'withdraw' | 'transfer_out' | 'transfer_in' | 'fixed_create' | 'fixed_mature' | 'fixed_extend' | 'fixed_early' | 'interest' | 'merge' | 'exchange_out' | 'exchange_in' | 'loan_disburse' | 'loan_repay' | 'overdraft_repay'
+
+/**
+ * 交易流水表结构
+ * 每次存款、取款、定期创建/到期/延期、利息入账、活期合并都会写入一条记录
+ */
+export interface MonetaryBankTransaction {
+  id: number        // 自增主键
+  uid: number       // 用户ID
+  currency: string  // 货币类型
+  type: TransactionType  // 流水类型
+  amount: number    // 变动金额（正数，方向由类型决定）
+  recordId?: number // 关联的 monetary_bank_int 记录ID
+  note?: string     // 备注
+  createdAt: Date   // 发生时间
+}
+
+/**
+ * 流水类型的展示信息（名称与资金方向）
+ */
+const TRANSACTION_TYPES: Record<TransactionType, { label: string; sign: '+' | '-' | '' }> = {
+  deposit: { label: '存款', sign: '+' },
+  withdraw: { label: '取款', sign: '-' },
+  transfer_out: { label: '转出', sign: '-' },
+  transfer_in: { label: '转入', sign: '+' },
+  fixed_create: { label: '定期存入', sign: '' },
+  fixed_mature: { label: '定期到期', sign: '' },
+  fixed_extend: { label: '定期续存', sign: '' },
+  fixed_early: { label: '提前支取', sign: '-' },
+  interest: { label: '利息入账', sign: '+' },
+  merge: { label: '活期合并', sign: '' },
+  exchange_out: { label: '兑换支出', sign: '-' },
+  exchange_in: { label: '兑换收入', sign: '+' },
+  loan_disburse: { label: '贷款发放', sign: '' },
+  loan_repay: { label: '贷款还款', sign: '' },
+  overdraft_repay: { label: '透支还款', sign: '' }
+}
+
+/**
+ * 幂等键表结构
+ * 记录带幂等键的 API 调用结果，有效期内的重复调用直接返回该结果
+ */
+export interface MonetaryBankIdempotency {
+  uid: number       // 发起调用的用户ID（与幂等键组成主键）
+  idempotencyKey: string  // 调用方提供的幂等键
+  method: string    // 调用的 API 方法名
+  fingerprint: string  // 调用参数（JSON），同一键被不同参数复用时拒绝执行
+  result: string    // 首次调用结果（JSON）
+  expiresAt: Date   // 过期时间
+}
+
+/**
+ * 定时任务表结构
+ * 记录用户设置的周期性指令（现金存入活期 / 活期转账给他人），由每日结算任务执行
+ */
+export interface MonetaryBankStandingOrder {
+  id: number        // 自增主键
+  uid: number       // 所属用户ID
+  currency: string  // 货币类型
+  kind: 'deposit' | 'transfer'  // 类型：deposit=现金存入活期，transfer=活期转账
+  amount: number    // 每次执行金额
+  toUid?: number    // 转账接收方用户ID（仅 transfer 有效）
+  toName?: string   // 转账接收方显示名称（仅 transfer 有效）
+  interval: 'day' | 'week' | 'month'  // 执行周期
+  nextRunDate: Date // 下次执行日期
+  status: 'active' | 'suspended' | 'cancelled'  // 状态：有效 / 因连续失败暂停 / 已取消
+  failCount: number // 连续失败次数
+  lastError?: string  // 最近一次失败原因
+  platform: string  // 创建时的平台（用于通知）
+  selfId: string    // 创建时的机器人ID（用于通知）
+  userId: string    // 创建者的平台用户ID（用于通知）
+  channelId?: string  // 创建时的频道ID（私聊通知失败时回退到频道）
+  createdAt: Date   // 创建时间
+}
+
+/**
+ * 插件运行状态表结构
+ * 以键值形式保存需要跨重启持久化的状态，如最近一次完成结算的日期、每日结算标记与结算租约
+ */
+export interface MonetaryBankMeta {
+  key: string       // 状态键
+  value: string     // 状态值
+  updatedAt: Date   // 最后更新时间
+  expiresAt?: Date  // 过期时间（仅租约使用）
+}
+
+/**
+ * 利率历史表结构
+ * 插件启动时将活期与各定期方案的当前利率配置与最近一条历史比较，发生变化时写入一条记录
+ */
+export interface MonetaryBankRate {
+  id: number        // 自增主键
+  kind: 'demand' | 'fixed'  // 类型：demand=活期，fixed=定期方案
+  currency?: string // 货币类型（为空表示全局配置）
+  planName?: string // 定期方案名称（仅定期有效）
+  rate: number      // 利率（百分比）
+  cycle: 'day' | 'week' | 'month'  // 结算周期
+  model: InterestModel  // 计息模式
+  tiers: string     // 阶梯利率（JSON，未配置时为 []）
+  effectiveAt: Date // 生效时间（检测到变更的时间）
+}
+
+/**
+ * 银行金库表结构
+ * 按货币记录银行自有资金：所有利息由金库支付，点差、违约金与贷款/透支利息计入金库
+ */
+export interface MonetaryBankTreasury {
+  currency: string  // 货币类型（主键）
+  balance: number   // 金库余额（deficit 模式下可为负）
+  updatedAt: Date   // 最后更新时间
+}
+
+/**
+ * 金库资金流水类型
+ */
+export type TreasuryFlowType = 'interest' | 'exchange_spread' | 'loan_interest' | 'overdraft_interest' | 'early_penalty' | 'adjust'
+
+/**
+ * 金库资金流水表结构
+ * 金库余额的每次变动写入一条记录，供管理员查看收支
+ */
+export interface MonetaryBankTreasuryFlow {
+  id: number        // 自增主键
+  currency: string  // 货币类型
+  type: TreasuryFlowType  // 流水类型
+  amount: number    // 变动金额（流入为正，流出为负）
+  uid?: number      // 关联的用户ID
+  note?: string     // 备注
+  createdAt: Date   // 发生时间
+}
+
+/**
+ * 金库流水类型的展示名称
+ */
+const TREASURY_FLOW_LABELS: Record<TreasuryFlowType, string> = {
+  interest: '支付利息',
+  exchange_spread: '兑换点差',
+  loan_interest: '贷款利息',
+  overdraft_interest: '透支利息',
+  early_penalty: '提前支取违约金',
+  adjust: '管理员调整'
+}
+
+/**
+ * 贷款表结构
+ * 每笔贷款一条记录，利息由每日结算任务按日计提，逾期后从借款人活期自动扣款
+ */
+export interface MonetaryBankLoan {
+  id: number        // 自增主键
+  uid: number       // 借款人用户ID
+  currency: string  // 货币类型
+  productName: string  // 贷款产品名称
+  principal: number // 借款本金
+  outstanding: number  // 未还本金
+  interest: number  // 已计提未还的利息（含罚息）
+  interestCarry?: string  // 计提取整后余下的利息零头（整数字符串，单位见 INTEREST_UNIT）
+  rate: number      // 年利率（百分比，借款时按产品锁定）
+  overdueRate: number  // 逾期罚息年利率（百分比，借款时按产品锁定）
+  dueDate: Date     // 到期日（当天0点）
+  status: 'active' | 'overdue' | 'repaid'  // 状态：正常 / 逾期 / 已结清
+  accruedAt: Date   // 利息已计提到的日期（当天0点）
+  createdAt: Date   // 借款时间
+  repaidAt?: Date   // 结清时间
+  collateralId?: number  // 质押的定期记录ID（仅定期质押贷款）
+}
+
+/**
+ * 贷款状态的展示名称
+ */
+const LOAN_STATUS_LABELS: Record<MonetaryBankLoan['status'], string> = {
+  active: '正常',
+  overdue: '逾期',
+  repaid: '已结清'
+}
+
+/**
+ * 活期透支账户表结构
+ * 透支金额单独记录在此表，活期记录的金额始终不为负；每个用户每种货币一行
+ */
+export interface MonetaryBankOverdraft {
+  uid: number       // 用户ID
+  currency: string  // 货币类型
+  enabled: boolean  // 用户是否开通透支
+  limit?: number    // 管理员设置的透支额度（为空时按日均活期余额规则计算）
+  used: number      // 已透支本金
+  interest: number  // 已计提未还的透支利息
+  interestCarry?: string  // 计提取整后余下的利息零头（整数字符串，单位见 INTEREST_UNIT）
+  accruedAt: Date   // 利息已计提到的日期（当天0点）
+  updatedAt: Date   // 最后更新时间
+}
+
+/**
+ * 每日活期余额快照表结构
+ * 每日结算时记录各用户的日终活期余额与透支本金，用于按日均余额计算透支额度与信用分
+ */
+export interface MonetaryBankSnapshot {
+  uid: number       // 用户ID
+  currency: string  // 货币类型
+  day: Date         // 快照日期（当天0点）
+  demand: number    // 日终活期余额
+  overdraft: number // 日终已透支本金
+}
+
+/**
+ * 信用分表结构
+ * 每个用户一行，由每日结算任务根据银行行为重新计算；日均余额按默认货币统计
+ */
+export interface MonetaryBankCredit {
+  uid: number       // 用户ID（主键）
+  score: number     // 信用分（300-900）
+  depositAge: number  // 首次存款至今的天数
+  averageBalance: number  // 近期日均活期余额
+  fixedMatured: number  // 持有到期的定期笔数
+  fixedEarly: number  // 提前支取定期的次数
+  loansOnTime: number  // 按时结清的贷款笔数
+  loansOverdue: number  // 发生逾期的贷款笔数
+  overdraftDays: number  // 近期处于透支状态的天数
+  updatedAt: Date   // 计算时间
+}
+
+/**
+ * 活期透支状态
+ */
+export interface OverdraftStatus {
+  enabled: boolean  // 是否已开通
+  limit: number     // 透支额度
+  used: number      // 已透支本金
+  interest: number  // 未还透支利息
+  owed: number      // 应还总额（本金 + 利息）
+  available: number // 剩余可透支额度
+}
+
+/**
+ * 定期质押贷款的产品名称
+ */
+const PLEDGE_LOAN_NAME = '定期质押贷'
+
+/**
+ * 周期的展示名称
+ */
+const CYCLE_LABELS: Record<'day' | 'week' | 'month', string> = {
+  day: '日',
+  week: '周',
+  month: '月'
+}
+
+/**
+ * 每年的结算周期数（用于年化利率折算与年化收益率计算）
+ */
+const CYCLES_PER_YEAR: Record<'day' | 'week' | 'month', number> = {
+  day: 365,
+  week: 52,
+  month: 12
+}
+
+/**
+ * 计息模式的展示名称
+ */
+const INTEREST_MODEL_LABELS: Record<InterestModel, string> = {
+  compound: '复利',
+  simple: '单利（利息转入现金）',
+  apr: '年化利率'
+}
+
+/** 流水查询每页条数 */
+const HISTORY_PAGE_SIZE = 10
+
+/** 支持的最大金额精度（小数位数），存储的金额最多保留这么多位小数 */
+const MAX_PRECISION = 6
+
+/** 金额换算为整数单位的倍数 */
+const AMOUNT_SCALE = 10n ** BigInt(MAX_PRECISION)
+
+/** 利率（百分比）换算为整数的倍数，利率最多保留 8 位小数 */
+const RATE_SCALE = 10n ** 8n
+
+/** 利息整数单位：1 个货币 = INTEREST_UNIT，金额 × 利率的精确结果在该单位下为整数 */
+const INTEREST_UNIT = AMOUNT_SCALE * 100n * RATE_SCALE
+
+/**
+ * 获取当前主题是否为深色模式
+ */
+function getTheme(config: Config): boolean {
+  if (config.themeMode === 'light') return false
+  if (config.themeMode === 'dark') return true
+  
+  // auto mode: 18:00 - 6:00 is dark
+  const hour = new Date().getHours()
+  return hour >= 18 || hour < 6
+}
+
+/**
+ * 初始化数据库模型
+ * 创建 monetary_bank_int 表用于存储所有存款记录（活期和定期）
+ */
+async function initDatabase(ctx: Context): Promise<boolean> {
+  try {
+    const tables = await ctx.database.tables
+
+    // 检查并创建 monetary_bank_int 表
+    if (tables && 'monetary_bank_int' in tables) {
       logInfo('检测到 monetary_bank_int 表已存在')
     } else {
       logInfo('monetary_bank_int 表不存在，正在创建...')
@@ -327,6 +1496,54 @@ async function initDatabase(ctx: Context): Promise<boolean> {
         nextCycle: {
           type: 'string',
           nullable: true,
+        },
+        penaltyRate: {
+          type: 'double',
+          nullable: true,
+        },
+        earnedInterest: {
+          type: 'double',
+          nullable: true,
+        },
+        planName: {
+          type: 'string',
+          nullable: true,
+        },
+        maturityDate: {
+          type: 'timestamp',
+          nullable: true,
+        },
+        interimInterest: {
+          type: 'string',
+          nullable: true,
+        },
+        nextPlanName: {
+          type: 'string',
+          nullable: true,
+        },
+        interestCarry: {
+          type: 'string',
+          nullable: true,
+        },
+        interestModel: {
+          type: 'string',
+          nullable: true,
+        },
+        anchorDay: {
+          type: 'unsigned',
+          nullable: true,
+        },
+        accruedInterest: {
+          type: 'string',
+          nullable: true,
+        },
+        accruedAt: {
+          type: 'timestamp',
+          nullable: true,
+        },
+        pledged: {
+          type: 'boolean',
+          nullable: true,
         }
       }, {
         primary: 'id',
@@ -336,1370 +1553,5872 @@ async function initDatabase(ctx: Context): Promise<boolean> {
       logSuccess('✓ monetary_bank_int 表创建成功')
     }
 
-    return true
-
-  } catch (error) {
-    logger.error('初始化数据库时发生错误:', error)
-    return false
-  }
-}
+    // 检查并创建 monetary_bank_tx 表
+    if (tables && 'monetary_bank_tx' in tables) {
+      logInfo('检测到 monetary_bank_tx 表已存在')
+    } else {
+      logInfo('monetary_bank_tx 表不存在，正在创建...')
 
-/**
- * 获取用户在主货币表（monetary）中的记录和数值字段名
- * 返回 { keyQuery, record, valueField } 或 null
- * 优化：合并了查询逻辑，减少重复代码
- */
-async function findMonetaryRecord(ctx: Context, uid: number, currency: string): Promise<{ keyQuery: any; record: any; valueField: string } | null> {
-  try {
-    // 尝试两种主键字段：uid 或 id
-    const queryKeys = [{ uid }, { id: uid }]
-    
-    for (const key of queryKeys) {
-      // @ts-ignore
-      const recs = await ctx.database.get('monetary', key)
-      if (recs && recs.length > 0) {
-        // 尝试找到与 currency 匹配的记录
-        const record = recs.find((r: any) => r.currency == currency) || recs[0]
-        
-        // 检测记录中可能的数值字段名
-        const numFields = ['value', 'balance', 'amount', 'coin', 'money']
-        const valueField = numFields.find((f) => typeof record[f] === 'number') 
-          || Object.keys(record).find(k => typeof record[k] === 'number') 
-          || 'value'
-        
-        return { keyQuery: key, record, valueField }
-      }
-    }
-    
-    return null
-  } catch (err) {
-    logger.warn('读取 monetary 表记录时出错：', err)
-    return null
-  }
-}
+      ctx.model.extend('monetary_bank_tx', {
+        id: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        uid: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        currency: {
+          type: 'string',
+          nullable: false,
+        },
+        type: {
+          type: 'string',
+          nullable: false,
+        },
+        amount: {
+          type: 'double',
+          nullable: false,
+        },
+        recordId: {
+          type: 'unsigned',
+          nullable: true,
+        },
+        note: {
+          type: 'string',
+          nullable: true,
+        },
+        createdAt: {
+          type: 'timestamp',
+          nullable: false,
+        }
+      }, {
+        primary: 'id',
+        autoInc: true
+      })
 
-/**
- * 在主货币表中创建一条最小化的用户记录（按需调用）
- * 行为说明：
- *  - 尝试使用常见字段插入记录（优先使用 uid，其次尝试 id）以兼容不同项目的表结构
- *  - 插入成功返回 true；所有尝试失败则返回 false（调用者可据此决定是否继续）
- * 注意：此函数只创建最小字段集，不会对外部表结构做额外假设或变更
- */
-async function createMonetaryUser(ctx: Context, uid: number, currency: string): Promise<boolean> {
-  const attempts = [
-    { uid, currency, value: 0 },
-    { id: uid, currency, value: 0 }
-  ]
-  
-  for (const data of attempts) {
-    try {
-      // @ts-ignore
-      await ctx.database.create('monetary', data)
-      logInfo(`在 monetary 表中创建了新用户记录`, data)
-      return true
-    } catch (err) {
-      // 继续尝试下一种方式
-      continue
+      logSuccess('✓ monetary_bank_tx 表创建成功')
     }
-  }
-  
-  logger.warn(`无法自动在 monetary 表中创建用户 uid=${uid}，请手动添加`)
-  return false
-}
 
-/**
- * 读取用户在主货币表（monetary）中的余额并返回数值
- * 返回值：
- *  - number: 表示当前余额（若记录存在且字段可解析为数字）
- *  - null: 表示无法读取（例如表不存在、查询异常或未能推断出余额字段）
- */
-async function getMonetaryBalance(ctx: Context, uid: number, currency: string): Promise<number | null> {
-  const entry = await findMonetaryRecord(ctx, uid, currency)
-  if (!entry) return null
-  const val = Number(entry.record[entry.valueField] || 0)
-  return Number.isNaN(val) ? null : val
-}
+    // 检查并创建 monetary_bank_idem 表
+    if (tables && 'monetary_bank_idem' in tables) {
+      logInfo('检测到 monetary_bank_idem 表已存在')
+    } else {
+      logInfo('monetary_bank_idem 表不存在，正在创建...')
 
-/**
- * 修改主货币（monetary）余额（增/减）并返回修改后的余额
- * 参数：
- *  - delta: 数值变化（正值增加现金，负值减少现金）
- * 返回：修改后的余额（number）或 null（表示失败，如余额不足或写入错误）
- * 逻辑要点：
- *  - 若用户不存在则尝试创建一条最小记录（createMonetaryUser）以保证后续写入成功
- *  - 更新前会读取当前字段并做防护，避免产生负余额
- */
-async function changeMonetary(ctx: Context, uid: number, currency: string, delta: number): Promise<number | null> {
-  try {
-    // 查找现有记录
-    let entry = await findMonetaryRecord(ctx, uid, currency)
-    
-    // 如果不存在，尝试创建
-    if (!entry) {
-      const created = await createMonetaryUser(ctx, uid, currency)
-      if (!created) return null
-      
-      // 重新查询
-      entry = await findMonetaryRecord(ctx, uid, currency)
-      if (!entry) return null
-    }
-    
-    const { keyQuery, record, valueField } = entry
-    const current = Number(record[valueField] || 0)
-    const newVal = current + delta
-    
-    // 检查余额是否足够
-    if (newVal < 0) return null
-    
-    // @ts-ignore
-    await ctx.database.set('monetary', keyQuery, { [valueField]: newVal })
-    return newVal
-  } catch (err) {
-    logger.error('修改主货币余额失败：', err)
-    return null
-  }
-}
-
-/**
- * 计算下次结算日期（T+1方案）
- * @param cycle 结算周期
- * @param isNew 是否为新存款（新存款使用T+1）
- * @returns 下次结算日期
- */
-function calculateNextSettlementDate(cycle: 'day' | 'week' | 'month', isNew: boolean = false): Date {
-  const now = new Date()
-  const settlement = new Date(now)
-  
-  // 设置为当天0点
-  settlement.setHours(0, 0, 0, 0)
-  
-  // 新存款T+1，从明天开始计算
-  if (isNew) {
-    settlement.setDate(settlement.getDate() + 1)
-  }
-  
-  // 根据周期计算下次结算日期
-  switch (cycle) {
-    case 'day':
-      settlement.setDate(settlement.getDate() + 1)
-      break
-    case 'week':
-      settlement.setDate(settlement.getDate() + 7)
-      break
-    case 'month':
-      settlement.setDate(settlement.getDate() + 30)
-      break
-  }
-  
-  return settlement
-}
-
-/**
- * 利息结算定时任务
- * 每日0点检查并结算到期的利息
- */
-async function scheduleInterestSettlement(ctx: Context, config: Config) {
-  if (!config.enableInterest) return
-  
-  // 计算距离明天0点的毫秒数
-  function getMillisecondsUntilMidnight(): number {
-    const now = new Date()
-    const tomorrow = new Date(now)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    tomorrow.setHours(0, 0, 0, 0)
-    return tomorrow.getTime() - now.getTime()
-  }
-  
-  // 立即执行一次结算检查
-  async function performSettlement() {
-    try {
-      logInfo('开始执行利息结算任务...')
-      const today = new Date()
-      today.setHours(0, 0, 0, 0)
-      
-      // 查询今天需要结算的记录
-      const records = await ctx.database.get('monetary_bank_int', {})
-      
-      for (const record of records) {
-        const settlementDate = new Date(record.settlementDate)
-        settlementDate.setHours(0, 0, 0, 0)
-        
-        // 如果结算日期是今天或之前
-        if (settlementDate <= today) {
-          await settleInterest(ctx, config, record)
+      ctx.model.extend('monetary_bank_idem', {
+        uid: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        idempotencyKey: {
+          type: 'string',
+          nullable: false,
+        },
+        method: {
+          type: 'string',
+          nullable: false,
+        },
+        fingerprint: {
+          type: 'text',
+          nullable: false,
+        },
+        result: {
+          type: 'text',
+          nullable: false,
+        },
+        expiresAt: {
+          type: 'timestamp',
+          nullable: false,
         }
-      }
-      
-      // 结算完成后合并可合并的活期记录以减少碎片记录
-      await mergeDemandRecords(ctx)
+      }, {
+        primary: ['uid', 'idempotencyKey']
+      })
 
-      logSuccess('利息结算任务执行完成')
-    } catch (error) {
-      logger.error('利息结算任务执行失败:', error)
+      logSuccess('✓ monetary_bank_idem 表创建成功')
     }
-  }
-  
-  // 首次延迟到明天0点执行
-  setTimeout(async () => {
-    await performSettlement()
-    
-    // 之后每24小时执行一次
-    setInterval(async () => {
-      await performSettlement()
-    }, 24 * 60 * 60 * 1000)
-  }, getMillisecondsUntilMidnight())
-  
-  logInfo('利息结算定时任务已启动，将在每日0点执行')
-}
 
-/**
- * 结算单条利息记录
- */
-async function settleInterest(ctx: Context, config: Config, record: MonetaryBankInterest) {
-  try {
-    // 计算利息
-    const interest = Math.floor(record.amount * record.rate / 100)
-    
-    if (record.type === 'demand') {
-      // 活期：利滚利，更新本金和下次结算日期
-      const newAmount = record.amount + interest
-      const nextSettlement = calculateNextSettlementDate(record.cycle, false)
-      
-      await ctx.database.set('monetary_bank_int', { id: record.id }, {
-        amount: newAmount,
-        settlementDate: nextSettlement
-      })
-      
-      logInfo(`活期利息结算: uid=${record.uid}, 本金=${record.amount}, 利息=${interest}, 新本金=${newAmount}`)
+    // 检查并创建 monetary_bank_order 表
+    if (tables && 'monetary_bank_order' in tables) {
+      logInfo('检测到 monetary_bank_order 表已存在')
     } else {
-      // 定期
-      if (record.extendRequested && record.nextRate !== undefined && record.nextCycle) {
-        // 申请了延期，使用新利率和周期继续
-        const newAmount = record.amount + interest
-        const nextSettlement = calculateNextSettlementDate(record.nextCycle, false)
-        
-        await ctx.database.set('monetary_bank_int', { id: record.id }, {
-          amount: newAmount,
-          rate: record.nextRate,
-          cycle: record.nextCycle,
-          settlementDate: nextSettlement,
-          extendRequested: false,
-          nextRate: null,
-          nextCycle: null
-        })
-        
-        logInfo(`定期延期结算: uid=${record.uid}, 本金=${record.amount}, 利息=${interest}, 新本金=${newAmount}, 新利率=${record.nextRate}%, 新周期=${record.nextCycle}`)
-      } else {
-        // 未延期，转为活期
-        await ctx.database.remove('monetary_bank_int', { id: record.id })
-        
-        // 本金+利息转为活期
-        const totalAmount = record.amount + interest
-        const demandConfig = config.demandInterest || { enabled: true, rate: 0.25, cycle: 'day' }
-        
-        if (demandConfig.enabled) {
-          const nextSettlement = calculateNextSettlementDate(demandConfig.cycle as any, false)
-          
-          await ctx.database.create('monetary_bank_int', {
-            uid: record.uid,
-            currency: record.currency,
-            amount: totalAmount,
-            type: 'demand',
-            rate: demandConfig.rate,
-            cycle: demandConfig.cycle as any,
-            settlementDate: nextSettlement,
-            extendRequested: false
-          })
+      logInfo('monetary_bank_order 表不存在，正在创建...')
+
+      ctx.model.extend('monetary_bank_order', {
+        id: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        uid: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        currency: {
+          type: 'string',
+          nullable: false,
+        },
+        kind: {
+          type: 'string',
+          nullable: false,
+        },
+        amount: {
+          type: 'double',
+          nullable: false,
+        },
+        toUid: {
+          type: 'unsigned',
+          nullable: true,
+        },
+        toName: {
+          type: 'string',
+          nullable: true,
+        },
+        interval: {
+          type: 'string',
+          nullable: false,
+        },
+        nextRunDate: {
+          type: 'timestamp',
+          nullable: false,
+        },
+        status: {
+          type: 'string',
+          nullable: false,
+        },
+        failCount: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        lastError: {
+          type: 'string',
+          nullable: true,
+        },
+        platform: {
+          type: 'string',
+          nullable: false,
+        },
+        selfId: {
+          type: 'string',
+          nullable: false,
+        },
+        userId: {
+          type: 'string',
+          nullable: false,
+        },
+        channelId: {
+          type: 'string',
+          nullable: true,
+        },
+        createdAt: {
+          type: 'timestamp',
+          nullable: false,
         }
-        
-        logInfo(`定期到期结算: uid=${record.uid}, 本金=${record.amount}, 利息=${interest}, 转活期=${totalAmount}`)
-      }
+      }, {
+        primary: 'id',
+        autoInc: true
+      })
+
+      logSuccess('✓ monetary_bank_order 表创建成功')
     }
-  } catch (error) {
-    logger.error(`结算利息失败 id=${record.id}:`, error)
-  }
-}
 
-/**
- * 计算用户银行总余额（通过 int 表聚合）
- */
-async function getBankBalance(ctx: Context, uid: number, currency: string): Promise<{ total: number; demand: number; fixed: number }> {
-  const records = await ctx.database.get('monetary_bank_int', { uid, currency })
-  
-  let demand = 0
-  let fixed = 0
-  
-  for (const record of records) {
-    if (record.type === 'demand') {
-      demand += record.amount
+    // 检查并创建 monetary_bank_meta 表
+    if (tables && 'monetary_bank_meta' in tables) {
+      logInfo('检测到 monetary_bank_meta 表已存在')
     } else {
-      fixed += record.amount
-    }
-  }
-  
-  return { total: demand + fixed, demand, fixed }
-}
+      logInfo('monetary_bank_meta 表不存在，正在创建...')
 
-/**
- * 合并活期记录（仅对 type='demand' 有效）
- * 规则：按 uid + currency + settlementDate(0点) + rate + cycle 分组，若同组中有多条记录则合并为一条
- * 这样可以避免大量小笔活期记录造成查询/结算性能问题
- */
-async function mergeDemandRecords(ctx: Context) {
-  try {
-    const records = await ctx.database
-      .select('monetary_bank_int')
-      .where({ type: 'demand' })
-      .execute()
+      ctx.model.extend('monetary_bank_meta', {
+        key: {
+          type: 'string',
+          nullable: false,
+        },
+        value: {
+          type: 'text',
+          nullable: false,
+        },
+        updatedAt: {
+          type: 'timestamp',
+          nullable: false,
+        },
+        expiresAt: {
+          type: 'timestamp',
+          nullable: true,
+        }
+      }, {
+        primary: 'key'
+      })
 
-    const groups: Record<string, { ids: number[]; uid: number; currency: string; settlementDate: Date; rate: number; cycle: string; total: number }> = {}
+      logSuccess('✓ monetary_bank_meta 表创建成功')
+    }
 
-    for (const r of records) {
-      // 规范化结算日期到当天0点以便对比
-      const sd = new Date(r.settlementDate)
-      sd.setHours(0, 0, 0, 0)
-      const key = `${r.uid}|${r.currency}|${sd.getTime()}|${r.rate}|${r.cycle}`
+    // 检查并创建 monetary_bank_rate 表
+    if (tables && 'monetary_bank_rate' in tables) {
+      logInfo('检测到 monetary_bank_rate 表已存在')
+    } else {
+      logInfo('monetary_bank_rate 表不存在，正在创建...')
 
-      if (!groups[key]) {
-        groups[key] = { ids: [], uid: r.uid, currency: r.currency, settlementDate: sd, rate: r.rate, cycle: r.cycle, total: 0 }
-      }
-      groups[key].ids.push(r.id)
-      groups[key].total += Number(r.amount || 0)
+      ctx.model.extend('monetary_bank_rate', {
+        id: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        kind: {
+          type: 'string',
+          nullable: false,
+        },
+        currency: {
+          type: 'string',
+          nullable: true,
+        },
+        planName: {
+          type: 'string',
+          nullable: true,
+        },
+        rate: {
+          type: 'double',
+          nullable: false,
+        },
+        cycle: {
+          type: 'string',
+          nullable: false,
+        },
+        model: {
+          type: 'string',
+          nullable: false,
+        },
+        tiers: {
+          type: 'text',
+          nullable: false,
+        },
+        effectiveAt: {
+          type: 'timestamp',
+          nullable: false,
+        }
+      }, {
+        primary: 'id',
+        autoInc: true
+      })
+
+      logSuccess('✓ monetary_bank_rate 表创建成功')
     }
 
-    for (const key of Object.keys(groups)) {
-      const g = groups[key]
-      if (g.ids.length <= 1) continue
+    // 检查并创建 monetary_bank_treasury 表
+    if (tables && 'monetary_bank_treasury' in tables) {
+      logInfo('检测到 monetary_bank_treasury 表已存在')
+    } else {
+      logInfo('monetary_bank_treasury 表不存在，正在创建...')
 
-      // 删除原有多条记录
-      for (const id of g.ids) {
-        try {
-          await ctx.database.remove('monetary_bank_int', { id })
-        } catch (e) {
-          logger.warn(`合并活期记录时删除 id=${id} 失败：`, e)
+      ctx.model.extend('monetary_bank_treasury', {
+        currency: {
+          type: 'string',
+          nullable: false,
+        },
+        balance: {
+          type: 'double',
+          nullable: false,
+        },
+        updatedAt: {
+          type: 'timestamp',
+          nullable: false,
         }
-      }
+      }, {
+        primary: 'currency'
+      })
 
-      // 创建合并后的单条记录
-      try {
-        await ctx.database.create('monetary_bank_int', {
-          uid: g.uid,
-          currency: g.currency,
-          amount: g.total,
-          type: 'demand',
-          rate: g.rate,
-          cycle: g.cycle as any,
-          settlementDate: g.settlementDate,
-          extendRequested: false
-        })
-        logInfo(`合并活期记录: uid=${g.uid}, currency=${g.currency}, settlementDate=${g.settlementDate.toISOString()}, 合并后金额=${g.total}`)
-      } catch (e) {
-        logger.error('创建合并后活期记录失败：', e)
-      }
+      logSuccess('✓ monetary_bank_treasury 表创建成功')
     }
-  } catch (err) {
-    logger.error('合并活期记录失败：', err)
-  }
-}
 
-/**
- * 生成存款确认消息（接口函数，便于后续扩展内容）
- * @param amount 存款金额
- * @param currency 货币类型
- * @param cash 当前现金余额
- * @returns 确认消息文本
- */
-function generateDepositConfirmMessage(amount: number, currency: string, cash: number): string {
-  return `您将存入 ${amount} ${currency} 到银行，当前现金：${cash} ${currency}。\n确认操作请回复 yes 或 y，取消请回复其他内容。`
-}
-
-/**
- * 生成取款确认消息（接口函数，便于后续扩展内容）
- * @param amount 取款金额
- * @param currency 货币类型
- * @param bankBalance 当前银行余额
- * @returns 确认消息文本
- */
-function generateWithdrawConfirmMessage(amount: number, currency: string, bankBalance: number): string {
-  return `您将从银行取出 ${amount} ${currency}，当前存款：${bankBalance} ${currency}。\n确认操作请回复 yes 或 y，取消请回复其他内容。`
-}
-
-/**
- * 插件主函数
- */
-export async function apply(ctx: Context, config: Config) {
-  // 根据配置设置 debug 开关（必须在 initDatabase 前设置以便输出可控）
-  debugEnabled = typeof config?.debug === 'boolean' ? config.debug : true
+    // 检查并创建 monetary_bank_treasury_tx 表
+    if (tables && 'monetary_bank_treasury_tx' in tables) {
+      logInfo('检测到 monetary_bank_treasury_tx 表已存在')
+    } else {
+      logInfo('monetary_bank_treasury_tx 表不存在，正在创建...')
 
-  // 在插件启动前初始化数据库
-  const dbInitSuccess = await initDatabase(ctx)
+      ctx.model.extend('monetary_bank_treasury_tx', {
+        id: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        currency: {
+          type: 'string',
+          nullable: false,
+        },
+        type: {
+          type: 'string',
+          nullable: false,
+        },
+        amount: {
+          type: 'double',
+          nullable: false,
+        },
+        uid: {
+          type: 'unsigned',
+          nullable: true,
+        },
+        note: {
+          type: 'string',
+          nullable: true,
+        },
+        createdAt: {
+          type: 'timestamp',
+          nullable: false,
+        }
+      }, {
+        primary: 'id',
+        autoInc: true
+      })
 
-  // 如果数据库初始化失败，停止加载插件
-  if (!dbInitSuccess) {
-    logger.error('插件加载失败：数据库初始化未通过')
-    return
-  }
+      logSuccess('✓ monetary_bank_treasury_tx 表创建成功')
+    }
 
-  logSuccess('✓ monetary-bank 插件加载成功')
+    // 检查并创建 monetary_bank_loan 表
+    if (tables && 'monetary_bank_loan' in tables) {
+      logInfo('检测到 monetary_bank_loan 表已存在')
+    } else {
+      logInfo('monetary_bank_loan 表不存在，正在创建...')
 
-  // 注册银行API服务
-  const api = new MonetaryBankAPI(ctx, config)
-  
-  // 使用 ctx.set() 注册服务，支持热重载时自动覆盖
-  // 这种方式不会在重复注册时抛出错误
-  ctx.set('monetaryBank', api)
+      ctx.model.extend('monetary_bank_loan', {
+        id: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        uid: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        currency: {
+          type: 'string',
+          nullable: false,
+        },
+        productName: {
+          type: 'string',
+          nullable: false,
+        },
+        principal: {
+          type: 'double',
+          nullable: false,
+        },
+        outstanding: {
+          type: 'double',
+          nullable: false,
+        },
+        interest: {
+          type: 'double',
+          nullable: false,
+        },
+        interestCarry: {
+          type: 'string',
+          nullable: true,
+        },
+        rate: {
+          type: 'double',
+          nullable: false,
+        },
+        overdueRate: {
+          type: 'double',
+          nullable: false,
+        },
+        dueDate: {
+          type: 'timestamp',
+          nullable: false,
+        },
+        status: {
+          type: 'string',
+          nullable: false,
+        },
+        accruedAt: {
+          type: 'timestamp',
+          nullable: false,
+        },
+        createdAt: {
+          type: 'timestamp',
+          nullable: false,
+        },
+        repaidAt: {
+          type: 'timestamp',
+          nullable: true,
+        },
+        collateralId: {
+          type: 'unsigned',
+          nullable: true,
+        }
+      }, {
+        primary: 'id',
+        autoInc: true
+      })
 
-  // 注册主命令：银行首页
-  ctx.command('bank', '银行服务')
-    .userFields(['id'])
-    .action(async ({ session }) => {
-      const uid = session.user.id
-      const currency = config.defaultCurrency || 'coin'
-      
-      try {
-        const balance = await ctx.monetaryBank.getBalance(uid, currency)
-        const cash = await getMonetaryBalance(ctx, uid, currency) || 0
-        
-        // 使用图形化首页
-        return await renderBankHomePage(
-          session.username || session.userId,
-          balance,
-          cash,
-          currency,
-          config.enableInterest || false
-        )
-      } catch (error) {
-        logger.error('获取银行信息失败:', error)
-        return '获取银行信息失败，请稍后再试。'
-      }
-    })
+      logSuccess('✓ monetary_bank_loan 表创建成功')
+    }
 
-  // 注册命令：查询存款
-  ctx.command('bank.bal [currency:string]', '查询银行存款')
-    .userFields(['id'])
-    .option('currency', '-c <currency:string> 指定货币类型')
-    .action(async ({ session, options }, currencyArg) => {
-      const uid = session.user.id
-      const currency = options?.currency || currencyArg || config.defaultCurrency || 'coin'
+    // 检查并创建 monetary_bank_overdraft 表
+    if (tables && 'monetary_bank_overdraft' in tables) {
+      logInfo('检测到 monetary_bank_overdraft 表已存在')
+    } else {
+      logInfo('monetary_bank_overdraft 表不存在，正在创建...')
 
-      try {
-        const balance = await ctx.monetaryBank.getBalance(uid, currency)
-        
-        if (balance.total === 0) {
-          return `您在银行中还没有 ${currency} 存款。`
+      ctx.model.extend('monetary_bank_overdraft', {
+        uid: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        currency: {
+          type: 'string',
+          nullable: false,
+        },
+        enabled: {
+          type: 'boolean',
+          nullable: false,
+        },
+        limit: {
+          type: 'double',
+          nullable: true,
+        },
+        used: {
+          type: 'double',
+          nullable: false,
+        },
+        interest: {
+          type: 'double',
+          nullable: false,
+        },
+        interestCarry: {
+          type: 'string',
+          nullable: true,
+        },
+        accruedAt: {
+          type: 'timestamp',
+          nullable: false,
+        },
+        updatedAt: {
+          type: 'timestamp',
+          nullable: false,
         }
+      }, {
+        primary: ['uid', 'currency']
+      })
 
-        // 使用图形化渲染
-        const demandRate = config.demandInterest?.rate ?? 0.25
-        return await renderBankBalanceImage(session.username || session.userId, balance, currency, demandRate)
-
-      } catch (error) {
-        logger.error('查询存款失败:', error)
-        return '查询失败，请稍后再试。'
-      }
-    })
+      logSuccess('✓ monetary_bank_overdraft 表创建成功')
+    }
 
-  // 注册命令：存款（自动转为活期）
-  ctx.command('bank.in [amount:string]', '存入货币到银行活期')
-    .userFields(['id'])
-    .option('currency', '-c <currency:string> 指定货币类型')
-    .option('yes', '-y 跳过确认直接执行')
-    .action(async ({ session, options }, amount) => {
-      const uid = session.user.id
-      const currency = options?.currency || config.defaultCurrency || 'coin'
+    // 检查并创建 monetary_bank_snapshot 表
+    if (tables && 'monetary_bank_snapshot' in tables) {
+      logInfo('检测到 monetary_bank_snapshot 表已存在')
+    } else {
+      logInfo('monetary_bank_snapshot 表不存在，正在创建...')
 
-      try {
-        // 交互式输入金额
-        if (!amount) {
-          await session.send(`请输入存款金额（正整数或 all）：`)
-          const amountInput = await session.prompt(30000)
-          if (!amountInput) return '操作超时，已取消存款。'
-          amount = amountInput.trim()
+      ctx.model.extend('monetary_bank_snapshot', {
+        uid: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        currency: {
+          type: 'string',
+          nullable: false,
+        },
+        day: {
+          type: 'timestamp',
+          nullable: false,
+        },
+        demand: {
+          type: 'double',
+          nullable: false,
+        },
+        overdraft: {
+          type: 'double',
+          nullable: false,
         }
+      }, {
+        primary: ['uid', 'currency', 'day']
+      })
 
-        // 解析金额（支持 all 关键字）
-        let cash = await getMonetaryBalance(ctx, uid, currency)
-        if (cash === null) {
-          const created = await createMonetaryUser(ctx, uid, currency)
-          if (!created) return '无法验证/创建主货币账户（monetary），请联系管理员。'
-          cash = 0
-        }
+      logSuccess('✓ monetary_bank_snapshot 表创建成功')
+    }
 
-        const amountInput = String(amount || '').trim().toLowerCase()
-        let amountNum: number
-        
-        if (amountInput === 'all') {
-          amountNum = Math.floor(cash)
-          if (amountNum <= 0) return `没有可存入的现金。当前现金：${cash} ${currency}`
-        } else {
-          amountNum = parseInt(amountInput, 10)
-          if (Number.isNaN(amountNum) || amountNum <= 0) {
-            return '请输入有效的存款金额（正整数或 all）。'
-          }
-        }
+    // 检查并创建 monetary_bank_credit 表
+    if (tables && 'monetary_bank_credit' in tables) {
+      logInfo('检测到 monetary_bank_credit 表已存在')
+    } else {
+      logInfo('monetary_bank_credit 表不存在，正在创建...')
 
-        // 二次确认
-        if (!options?.yes) {
-          // 使用图形化确认页面（如果可用）
-          if (ctx.puppeteer) {
-            const confirmImage = await renderDepositConfirmPage(
-              session.username || session.userId,
-              amountNum,
-              currency,
-              cash
-            )
-            await session.send(confirmImage)
-          } else {
-            const confirmMsg = generateDepositConfirmMessage(amountNum, currency, cash)
-            await session.send(confirmMsg)
-          }
-          
-          const userInput = await session.prompt(30000)
-          if (!userInput) return '操作超时，已取消存款。'
-          
-          const confirmed = userInput.trim().toLowerCase()
-          if (confirmed !== 'yes' && confirmed !== 'y') {
-            return '已取消存款操作。'
-          }
+      ctx.model.extend('monetary_bank_credit', {
+        uid: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        score: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        depositAge: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        averageBalance: {
+          type: 'double',
+          nullable: false,
+        },
+        fixedMatured: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        fixedEarly: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        loansOnTime: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        loansOverdue: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        overdraftDays: {
+          type: 'unsigned',
+          nullable: false,
+        },
+        updatedAt: {
+          type: 'timestamp',
+          nullable: false,
         }
+      }, {
+        primary: 'uid'
+      })
 
-        // 调用API存款
-        const result = await ctx.monetaryBank.deposit(uid, currency, amountNum)
-        
-        if (!result.success) {
-          return result.error || '存款失败'
-        }
+      logSuccess('✓ monetary_bank_credit 表创建成功')
+    }
 
-        // 使用图形化界面显示成功结果
-        return await renderDepositSuccessImage(
-          session.username || session.userId,
-          amountNum,
-          currency,
-          result.newCash,
-          result.newBalance
-        )
+    return true
 
-      } catch (error) {
-        logger.error('存款失败:', error)
-        return '存款失败，请稍后再试。'
-      }
-    })
+  } catch (error) {
+    logger.error('初始化数据库时发生错误:', error)
+    return false
+  }
+}
 
-  // 注册命令：取款（仅从活期扣除）
-  ctx.command('bank.out [amount:string]', '从银行取出货币')
-    .userFields(['id'])
-    .option('currency', '-c <currency:string> 指定货币类型')
-    .option('yes', '-y 跳过确认直接执行')
-    .action(async ({ session, options }, amount) => {
-      const uid = session.user.id
-      const currency = options?.currency || config.defaultCurrency || 'coin'
+/**
+ * 现金后端接口
+ * 银行的所有现金读写（存取款、利息转入现金、提前支取等）都通过当前启用的现金后端完成
+ * 其他插件可通过 MonetaryBankAPI.registerCurrencyBackend 注册自己的实现，并在配置项 currencyBackend.type 中按名称启用
+ */
+export interface CurrencyBackend {
+  /**
+   * 读取现金余额
+   * @returns 当前余额；账户不存在或无法读取时返回 null
+   */
+  getBalance(uid: number, currency: string): Promise<number | null>
+  /**
+   * 创建余额为 0 的现金账户（账户已存在时也应返回 true）
+   * @returns 是否创建成功
+   */
+  createAccount(uid: number, currency: string): Promise<boolean>
+  /**
+   * 修改现金余额（增/减），账户不存在时应先创建
+   * @param delta 数值变化（正值增加现金，负值减少现金）
+   * @returns 修改后的余额；余额不足或写入失败时返回 null（此时不应修改余额）
+   */
+  change(uid: number, currency: string, delta: number): Promise<number | null>
+}
 
-      try {
-        // 查询活期余额
-        const balance = await ctx.monetaryBank.getBalance(uid, currency)
-        
-        if (balance.demand === 0) {
-          return `没有可取出的存款。当前活期：${balance.demand} ${currency}`
-        }
+/**
+ * 已注册的现金后端（键为后端名称）
+ * 内置 monetary 与 table 两种后端在插件启动时注册，其余由其他插件注册
+ */
+const currencyBackends = new Map<string, CurrencyBackend>()
 
-        // 交互式输入金额
-        if (!amount) {
-          await session.send(`请输入取款金额（正整数或 all）：\n当前可用余额：${balance.demand} ${currency}`)
-          const amountInput = await session.prompt(30000)
-          if (!amountInput) return '操作超时，已取消取款。'
-          amount = amountInput.trim()
-        }
+// 当前启用的现金后端名称（由配置控制）
+let activeCurrencyBackend = 'monetary'
 
-        // 解析金额（支持 all 关键字）
-        const amountInput = String(amount || '').trim().toLowerCase()
-        let amountNum: number
-        
-        if (amountInput === 'all') {
-          amountNum = Math.floor(balance.demand)
-        } else {
-          amountNum = parseInt(amountInput, 10)
-          if (Number.isNaN(amountNum) || amountNum <= 0) {
-            return '请输入有效的取款金额（正整数或 all）。'
-          }
-        }
+/**
+ * koishi-plugin-monetary 提供的服务接口（仅列出用到的方法）
+ */
+interface MonetaryService {
+  gain(uid: number, amount: number, currency?: string): Promise<void>
+  cost(uid: number, amount: number, currency?: string): Promise<void>
+}
 
-        // 二次确认
-        if (!options?.yes) {
-          // 使用图形化确认页面（如果可用）
-          if (ctx.puppeteer) {
-            const confirmImage = await renderWithdrawConfirmPage(
-              session.username || session.userId,
-              amountNum,
-              currency,
-              balance.demand
-            )
-            await session.send(confirmImage)
-          } else {
-            const confirmMsg = generateWithdrawConfirmMessage(amountNum, currency, balance.demand)
-            await session.send(confirmMsg)
-          }
-          
-          const userInput = await session.prompt(30000)
-          if (!userInput) return '操作超时，已取消取款。'
-          
-          const confirmed = userInput.trim().toLowerCase()
-          if (confirmed !== 'yes' && confirmed !== 'y') {
-            return '已取消取款操作。'
-          }
-        }
+/**
+ * koishi-plugin-monetary 的货币表结构（仅列出用到的字段）
+ */
+interface MonetaryAccount {
+  uid: number
+  currency: string
+  value: number
+}
 
-        // 调用API取款
-        const result = await ctx.monetaryBank.withdraw(uid, currency, amountNum)
-        
-        if (!result.success) {
-          return result.error || '取款失败'
-        }
+/**
+ * 内置后端：使用 koishi-plugin-monetary 的服务接口修改余额
+ * 余额按 uid + currency 精确读取 monetary 表（该插件未提供查询接口），不会回退到其他货币的记录
+ */
+function createMonetaryBackend(ctx: Context): CurrencyBackend {
+  const getService = () => ctx.monetary
 
-        // 使用图形化界面显示成功结果
-        return await renderWithdrawSuccessImage(
-          session.username || session.userId,
-          amountNum,
-          currency,
-          result.newCash,
-          result.newBalance
-        )
+  const getBalance = async (uid: number, currency: string): Promise<number | null> => {
+    try {
+      const [record] = await ctx.database.get('monetary', { uid, currency })
+      if (!record) return null
+      const value = Number(record.value || 0)
+      return Number.isNaN(value) ? null : value
+    } catch (err) {
+      logger.warn('读取 monetary 表记录时出错：', err)
+      return null
+    }
+  }
 
-      } catch (error) {
-        logger.error('取款失败:', error)
-        return '取款失败，请稍后再试。'
+  return {
+    getBalance,
+    async createAccount(uid, currency) {
+      if (await getBalance(uid, currency) !== null) return true
+      const service = getService()
+      if (!service) {
+        logger.warn('未找到 monetary 服务，无法创建现金账户，请安装并启用 koishi-plugin-monetary')
+        return false
       }
-    })
-
-  // 注册命令：申请定期存款
-  ctx.command('bank.fixed', '申请定期存款')
-    .userFields(['id'])
-    .option('currency', '-c <currency:string> 指定货币类型')
-    .action(async ({ session, options }) => {
-      if (!config.enableInterest) {
-        return '利息功能未启用。'
+      try {
+        await service.gain(uid, 0, currency)
+        logInfo(`通过 monetary 服务创建了现金账户 uid=${uid}, currency=${currency}`)
+        return true
+      } catch (err) {
+        logger.warn(`无法通过 monetary 服务创建现金账户 uid=${uid}：`, err)
+        return false
       }
-      
-      const uid = session.user.id
-      const currency = options?.currency || config.defaultCurrency || 'coin'
-      
-      // 显示可用的定期方案
-      const plans = config.fixedInterest || []
-      if (plans.length === 0) {
-        return '当前没有可用的定期存款方案。'
+    },
+    async change(uid, currency, delta) {
+      const service = getService()
+      if (!service) {
+        logger.warn('未找到 monetary 服务，无法修改现金余额，请安装并启用 koishi-plugin-monetary')
+        return null
       }
-      
-      // 检查用户资金
-      const cash = await getMonetaryBalance(ctx, uid, currency) || 0
-      const balance = await getBankBalance(ctx, uid, currency)
-      
-      // 使用图形化方案选择页面（如果可用）
-      if (ctx.puppeteer) {
-        const planImage = await renderFixedPlanSelectionPage(
-          session.username || session.userId,
-          plans,
-          cash,
-          balance.demand,
-          currency
-        )
-        await session.send(planImage)
-      } else {
-        let msg = '可选的定期存款方案：\n'
-        plans.forEach((plan, index) => {
-          const cycleText = plan.cycle === 'day' ? '日' : plan.cycle === 'week' ? '周' : '月'
-          msg += `${index + 1}. ${plan.name} - 利率：${plan.rate}% - 周期：${cycleText}\n`
-        })
-        msg += '\n请输入方案编号选择，或输入 0 取消：'
-        await session.send(msg)
+      try {
+        const current = await getBalance(uid, currency) ?? 0
+        const newVal = normalizeAmount(current + delta)
+        // 检查余额是否足够
+        if (newVal < 0) return null
+
+        if (delta > 0) {
+          await service.gain(uid, delta, currency)
+        } else if (delta < 0) {
+          await service.cost(uid, -delta, currency)
+        }
+        return await getBalance(uid, currency) ?? newVal
+      } catch (err) {
+        logger.error('修改主货币余额失败：', err)
+        return null
       }
-      
-      const planInput = await session.prompt(30000)
-      if (!planInput) return '操作超时，已取消。'
-      
-      const planIndex = parseInt(planInput.trim()) - 1
-      if (planIndex < 0) return '已取消定期存款申请。'
-      if (planIndex >= plans.length) return '无效的方案编号。'
-      
-      const selectedPlan = plans[planIndex]
-      
-      // 询问金额
-      await session.send(`请输入存入金额（优先使用现金，不足时使用银行活期存款）：`)
-      const amountInput = await session.prompt(30000)
-      if (!amountInput) return '操作超时，已取消。'
-      
-      const amount = parseInt(amountInput.trim())
-      if (!amount || amount <= 0) return '无效的金额。'
-      
+    }
+  }
+}
+
+/**
+ * 内置后端：按配置的表名与字段名直接读写数据表，适用于外部项目自建的货币表
+ * 未配置货币字段时视为单一货币表，按用户字段读写
+ */
+function createTableBackend(ctx: Context, options: Config['currencyBackend']): CurrencyBackend {
+  // 表名与字段名来自配置，记录按字段名动态读写
+  const table = (options?.table || 'monetary') as keyof Tables
+  const keyField = options?.keyField || 'uid'
+  const currencyField = options?.currencyField || ''
+  const valueField = options?.valueField || 'value'
+  const getQuery = (uid: number, currency: string): Dict => currencyField
+    ? { [keyField]: uid, [currencyField]: currency }
+    : { [keyField]: uid }
+
+  const getBalance = async (uid: number, currency: string): Promise<number | null> => {
+    try {
+      const [record]: Dict[] = await ctx.database.get(table, getQuery(uid, currency))
+      if (!record) return null
+      const value = Number(record[valueField] || 0)
+      return Number.isNaN(value) ? null : value
+    } catch (err) {
+      logger.warn(`读取 ${table} 表记录时出错：`, err)
+      return null
+    }
+  }
+
+  const createAccount = async (uid: number, currency: string): Promise<boolean> => {
+    if (await getBalance(uid, currency) !== null) return true
+    try {
+      await ctx.database.create(table, { ...getQuery(uid, currency), [valueField]: 0 })
+      logInfo(`在 ${table} 表中创建了新用户记录 uid=${uid}, currency=${currency}`)
+      return true
+    } catch (err) {
+      logger.warn(`无法在 ${table} 表中创建用户 uid=${uid}，请手动添加：`, err)
+      return false
+    }
+  }
+
+  return {
+    getBalance,
+    createAccount,
+    async change(uid, currency, delta) {
       try {
-        // 检查用户资金
-        const cash = await getMonetaryBalance(ctx, uid, currency) || 0
-        const balance = await getBankBalance(ctx, uid, currency)
-        
-        const totalAvailable = cash + balance.demand
-        if (totalAvailable < amount) {
-          return `资金不足！现金：${cash} ${currency}，活期存款：${balance.demand} ${currency}，合计：${totalAvailable} ${currency}`
+        // 如果不存在，先创建
+        let current = await getBalance(uid, currency)
+        if (current === null) {
+          if (!await createAccount(uid, currency)) return null
+          current = await getBalance(uid, currency)
+          if (current === null) return null
         }
-        
-        // 确认
-        await session.send(`将存入 ${amount} ${currency} 到定期（${selectedPlan.name}），利率 ${selectedPlan.rate}%。\n确认请输入 yes 或 y：`)
-        const confirm = await session.prompt(30000)
-        if (!confirm || !['yes', 'y'].includes(confirm.trim().toLowerCase())) {
-          return '已取消定期存款申请。'
-        }
-        
-        // 扣款逻辑：优先扣现金，不足时扣活期
-        let remaining = amount
-        let fromCash = 0
-        let fromDemand = 0
-        
-        if (cash > 0) {
-          fromCash = Math.min(cash, remaining)
-          remaining -= fromCash
-          const newCash = await changeMonetary(ctx, uid, currency, -fromCash)
-          if (newCash === null) return '扣除现金失败。'
-        }
-        
-        if (remaining > 0) {
-          fromDemand = remaining
-          // 从活期记录中扣除
-          const demandRecords = await ctx.database
-            .select('monetary_bank_int')
-            .where({ uid, currency, type: 'demand' })
-            .orderBy('settlementDate', 'asc')
-            .execute()
-          
-          let toDeduct = fromDemand
-          for (const record of demandRecords) {
-            if (toDeduct <= 0) break
-            
-            if (record.amount <= toDeduct) {
-              toDeduct -= record.amount
-              await ctx.database.remove('monetary_bank_int', { id: record.id })
-            } else {
-              const newAmount = record.amount - toDeduct
-              await ctx.database.set('monetary_bank_int', { id: record.id }, { amount: newAmount })
-              toDeduct = 0
-            }
-          }
-        }
-        
-        // 创建定期记录
-        const settlementDate = calculateNextSettlementDate(selectedPlan.cycle as any, true)
-        await ctx.database.create('monetary_bank_int', {
+
+        const newVal = normalizeAmount(current + delta)
+        // 检查余额是否足够
+        if (newVal < 0) return null
+
+        await ctx.database.set(table, getQuery(uid, currency), { [valueField]: newVal })
+        return newVal
+      } catch (err) {
+        logger.error('修改主货币余额失败：', err)
+        return null
+      }
+    }
+  }
+}
+
+/**
+ * 获取当前启用的现金后端；后端未注册（如提供该后端的插件未启用）时返回 null
+ */
+function getCurrencyBackend(): CurrencyBackend | null {
+  const backend = currencyBackends.get(activeCurrencyBackend)
+  if (!backend) {
+    logger.warn(`现金后端 ${activeCurrencyBackend} 未注册，现金操作将失败`)
+    return null
+  }
+  return backend
+}
+
+/**
+ * 汇率提供者接口
+ * 其他插件可通过 MonetaryBankAPI.registerExchangeRateProvider 注册自己的实现，并在配置项 exchange.provider 中按名称启用
+ */
+export interface ExchangeRateProvider {
+  /**
+   * 查询汇率
+   * @returns 1 单位 from 货币可兑换的 to 货币数量；不支持该货币对时返回 null
+   */
+  getRate(from: string, to: string): Promise<number | null>
+}
+
+/**
+ * 已注册的汇率提供者（键为名称），内置 config 提供者在插件启动时注册
+ */
+const exchangeRateProviders = new Map<string, ExchangeRateProvider>()
+
+// 当前启用的汇率提供者名称（由配置控制）
+let activeExchangeRateProvider = 'config'
+
+/**
+ * 内置汇率提供者：使用配置中的汇率表，未配置的方向按反向汇率的倒数计算
+ */
+function createConfigRateProvider(config: Config): ExchangeRateProvider {
+  return {
+    async getRate(from, to) {
+      const rates = config.exchange?.rates || []
+      const direct = rates.find(r => r.from === from && r.to === to)
+      if (direct?.rate > 0) return direct.rate
+      const reverse = rates.find(r => r.from === to && r.to === from)
+      if (reverse?.rate > 0) return 1 / reverse.rate
+      return null
+    }
+  }
+}
+
+/**
+ * 在当前现金后端中创建用户的现金账户（按需调用）
+ * 创建成功（或账户已存在）返回 true，否则返回 false（调用者可据此决定是否继续）
+ */
+async function createMonetaryUser(uid: number, currency: string): Promise<boolean> {
+  const backend = getCurrencyBackend()
+  return backend ? await backend.createAccount(uid, currency) : false
+}
+
+/**
+ * 读取用户的现金余额
+ * 返回值：
+ *  - number: 表示当前余额
+ *  - null: 表示无法读取（例如账户不存在、后端未注册或查询异常）
+ */
+async function getMonetaryBalance(uid: number, currency: string): Promise<number | null> {
+  const backend = getCurrencyBackend()
+  return backend ? await backend.getBalance(uid, currency) : null
+}
+
+/**
+ * 修改用户的现金余额（增/减）并返回修改后的余额
+ * 参数：
+ *  - delta: 数值变化（正值增加现金，负值减少现金）
+ * 返回：修改后的余额（number）或 null（表示失败，如余额不足或写入错误）
+ */
+async function changeMonetary(uid: number, currency: string, delta: number): Promise<number | null> {
+  const backend = getCurrencyBackend()
+  return backend ? await backend.change(uid, currency, delta) : null
+}
+
+/**
+ * 银行操作错误
+ * 在多步资金操作中抛出以中断流程并触发回滚，message 为可直接展示给用户的提示
+ */
+export class BankOperationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BankOperationError'
+  }
+}
+
+/**
+ * 补偿回滚器
+ * 多步资金操作每完成一步就登记对应的撤销动作，失败时按相反顺序逐一撤销
+ * 不依赖数据库驱动是否支持事务，对 monetary 表与 monetary_bank_int 表的写入同样有效
+ */
+class Rollback {
+  private steps: Array<{ label: string; undo: () => Promise<unknown> }> = []
+
+  /**
+   * 登记一个撤销动作
+   * @param label 步骤描述（用于日志）
+   * @param undo 撤销函数，抛出异常视为撤销失败
+   */
+  add(label: string, undo: () => Promise<unknown>) {
+    this.steps.push({ label, undo })
+  }
+
+  /**
+   * 按相反顺序执行所有撤销动作；单步撤销失败只记录错误，继续撤销其余步骤
+   */
+  async run() {
+    for (const step of this.steps.reverse()) {
+      try {
+        await step.undo()
+        logInfo(`已回滚: ${step.label}`)
+      } catch (err) {
+        logger.error(`回滚失败，需要人工核对: ${step.label}`, err)
+      }
+    }
+    this.steps = []
+  }
+}
+
+/**
+ * 以"全部成功或全部撤销"的方式执行多步资金操作
+ * fn 中任意一步抛出异常时，已登记的步骤会被回滚，异常继续向上抛出
+ */
+async function withRollback<T>(fn: (rollback: Rollback) => Promise<T>): Promise<T> {
+  const rollback = new Rollback()
+  try {
+    return await fn(rollback)
+  } catch (err) {
+    await rollback.run()
+    throw err
+  }
+}
+
+/**
+ * 用户资金锁表：键为 `uid:currency`（幂等键使用 `idem:<uid>:<key>`），值为该键上排队中最后一个操作的完成 Promise
+ * 同一用户同一货币的所有资金操作（命令、API、利息结算、活期合并）依次执行，
+ * 避免两个操作同时读取余额后各自扣减导致透支
+ * 注意：锁保存在进程内存中，只对当前进程有效；多个实例共享数据库时，不同实例对同一账户的并发操作不受此锁保护
+ */
+const userLocks = new Map<string, Promise<void>>()
+
+/**
+ * 获取单个锁，返回释放函数
+ */
+async function acquireLock(key: string): Promise<() => void> {
+  const previous = userLocks.get(key) || Promise.resolve()
+  let release: () => void
+  const current = new Promise<void>(resolve => release = resolve)
+  const tail = previous.then(() => current)
+  userLocks.set(key, tail)
+  await previous
+  return () => {
+    release()
+    // 没有后续排队者时清理，避免锁表无限增长
+    if (userLocks.get(key) === tail) userLocks.delete(key)
+  }
+}
+
+/**
+ * 持有一组 (uid, currency) 锁执行 fn，执行完毕（无论成功失败）后释放
+ * 多个锁按键排序后依次获取，避免交叉加锁造成死锁
+ * 注意：锁不可重入，已持有锁的代码路径中不要再调用会加同一把锁的函数
+ */
+async function withUserLock<T>(targets: Array<{ uid: number; currency: string }>, fn: () => Promise<T>): Promise<T> {
+  const keys = [...new Set(targets.map(t => `${t.uid}:${t.currency}`))].sort()
+  const releases: Array<() => void> = []
+  try {
+    for (const key of keys) {
+      releases.push(await acquireLock(key))
+    }
+    return await fn()
+  } finally {
+    for (const release of releases.reverse()) release()
+  }
+}
+
+/**
+ * 以幂等方式执行 API 调用
+ * - 未提供幂等键时直接执行
+ * - 幂等键按用户区分，并与方法名及调用参数绑定：有效期内同一用户以相同方法与参数重复调用时直接返回首次的成功结果，不再重复执行
+ * - 同一用户的幂等键被不同方法或不同参数的调用复用时返回错误，不会执行，也不会返回其他调用的结果
+ * - 仅保存成功结果：失败的调用没有改变任何余额，调用方可使用同一个键安全重试
+ * 同一幂等键的并发调用会串行执行，保证只有一次真正生效；重放的结果中日期字段会还原为 Date
+ * @param args 除 uid 与幂等键外的调用参数，用于识别同一个键是否被用于不同的调用
+ */
+async function withIdempotencyKey<T extends { success: boolean; error?: string }>(
+  ctx: Context,
+  config: Config,
+  method: string,
+  uid: number,
+  args: unknown[],
+  idempotencyKey: string | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!idempotencyKey) return await fn()
+
+  const fingerprint = JSON.stringify(args)
+  const release = await acquireLock(`idem:${uid}:${idempotencyKey}`)
+  try {
+    const now = new Date()
+    const [stored] = await ctx.database.get('monetary_bank_idem', { uid, idempotencyKey, expiresAt: { $gt: now } })
+    if (stored) {
+      if (stored.method !== method || stored.fingerprint !== fingerprint) {
+        logger.warn(`幂等键被不同的调用复用: uid=${uid}, key=${idempotencyKey}, 原调用=${stored.method}${stored.fingerprint}, 本次=${method}${fingerprint}`)
+        return { success: false, error: '幂等键已被其他操作使用' } as T
+      }
+      logInfo(`幂等键命中: method=${method}, uid=${uid}, key=${idempotencyKey}`)
+      return JSON.parse(stored.result, reviveDate)
+    }
+
+    const result = await fn()
+    if (result.success) {
+      try {
+        const expireHours = config.idempotencyExpire ?? 24
+        await ctx.database.upsert('monetary_bank_idem', [{
           uid,
-          currency,
-          amount,
-          type: 'fixed',
-          rate: selectedPlan.rate,
-          cycle: selectedPlan.cycle as any,
-          settlementDate,
-          extendRequested: false
-        })
-        
-        const newBalance = await getBankBalance(ctx, uid, currency)
-        const newCash = await getMonetaryBalance(ctx, uid, currency) || 0
-        
-        // 使用图形化界面显示成功结果
-        return await renderFixedDepositSuccessImage(
-          session.username || session.userId,
-          amount,
-          currency,
-          selectedPlan.name,
-          selectedPlan.rate,
-          selectedPlan.cycle,
-          settlementDate,
-          fromCash,
-          fromDemand,
-          newCash,
-          newBalance
-        )
-        
-      } catch (error) {
-        logger.error('定期存款失败:', error)
-        return '定期存款失败，请稍后再试。'
+          idempotencyKey,
+          method,
+          fingerprint,
+          result: JSON.stringify(result),
+          expiresAt: new Date(now.getTime() + expireHours * 60 * 60 * 1000)
+        }])
+        // 顺带清理已过期的幂等键
+        await ctx.database.remove('monetary_bank_idem', { expiresAt: { $lte: now } })
+      } catch (err) {
+        logger.warn(`保存幂等键失败 method=${method}, uid=${uid}, key=${idempotencyKey}：`, err)
+      }
+    }
+    return result
+  } finally {
+    release()
+  }
+}
+
+/**
+ * JSON.parse 的 reviver：将 Date.toJSON 格式的字符串还原为 Date
+ */
+function reviveDate(_key: string, value: unknown) {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/.test(value)) {
+    return new Date(value)
+  }
+  return value
+}
+
+/**
+ * 修改现金余额（可回滚）
+ * 写入失败时抛出 BankOperationError；成功后登记反向修改作为撤销动作
+ * @returns 修改后的现金余额
+ */
+async function changeCash(ctx: Context, uid: number, currency: string, delta: number, rollback: Rollback): Promise<number> {
+  const newCash = await changeMonetary(uid, currency, delta)
+  if (newCash === null) {
+    throw new BankOperationError(delta < 0 ? '扣除现金失败' : '转账到现金失败')
+  }
+  rollback.add(`现金 uid=${uid} ${delta > 0 ? '+' : ''}${delta} ${currency}`, async () => {
+    if (await changeMonetary(uid, currency, -delta) === null) {
+      throw new Error('反向修改现金失败')
+    }
+  })
+  return newCash
+}
+
+/**
+ * 修改银行金库余额并写入金库流水（可回滚，持有该货币的金库锁）
+ * 金库流水仅用于查看收支，写入失败只记录警告
+ * @param delta 变动金额，或根据当前金库余额计算变动金额的函数（在金库锁内调用）
+ * @returns 实际变动金额与修改后的金库余额
+ */
+async function changeTreasury(
+  ctx: Context,
+  currency: string,
+  delta: number | ((balance: number) => number),
+  rollback: Rollback,
+  flow: { type: TreasuryFlowType; uid?: number; note?: string }
+): Promise<{ delta: number; balance: number }> {
+  const update = (change: number) => withTreasuryLock(currency, async () => {
+    const [treasury] = await ctx.database.get('monetary_bank_treasury', { currency })
+    const balance = normalizeAmount((treasury?.balance || 0) + change)
+    await ctx.database.upsert('monetary_bank_treasury', [{ currency, balance, updatedAt: new Date() }])
+    return balance
+  })
+
+  const { change, balance } = await withTreasuryLock(currency, async () => {
+    const [treasury] = await ctx.database.get('monetary_bank_treasury', { currency })
+    const current = treasury?.balance || 0
+    const change = normalizeAmount(typeof delta === 'function' ? delta(current) : delta)
+    if (!change) return { change: 0, balance: current }
+
+    const balance = normalizeAmount(current + change)
+    await ctx.database.upsert('monetary_bank_treasury', [{ currency, balance, updatedAt: new Date() }])
+    return { change, balance }
+  })
+  if (!change) return { delta: 0, balance }
+  rollback.add(`金库 ${change > 0 ? '+' : ''}${change} ${currency}`, () => update(-change))
+
+  try {
+    const record = await ctx.database.create('monetary_bank_treasury_tx', { currency, amount: change, ...flow, createdAt: new Date() })
+    rollback.add(`删除金库流水 id=${record.id}`, () => ctx.database.remove('monetary_bank_treasury_tx', { id: record.id }))
+  } catch (err) {
+    logger.warn(`写入金库流水失败 currency=${currency}, type=${flow.type}, amount=${change}：`, err)
+  }
+  return { delta: change, balance }
+}
+
+/**
+ * 从银行金库支付利息（可回滚），金库余额不足时按 treasury.mode 处理：
+ * deficit 照常支付（金库可为负）；pause 不足以支付该笔利息时本期不发放；prorate 按 ratio 折算并向下取整，且不超过金库余额
+ * 未支付的部分由调用方记为欠付利息（见 getUnpaidInterestUnits），金库有余额后的结算中补发
+ * @param ratio 按比例发放时本轮可发放的比例（见 getInterestRatios）
+ * @returns 实际支付的利息
+ */
+async function payInterestFromTreasury(ctx: Context, config: Config, uid: number, currency: string, interest: number, ratio: number, rollback: Rollback): Promise<number> {
+  if (interest <= 0) return 0
+
+  const mode = config.treasury?.mode || 'deficit'
+  const factor = 10 ** getPrecisionSettings(config, currency).digits
+  const { delta } = await changeTreasury(ctx, currency, (balance) => {
+    if (mode === 'pause') return balance >= interest ? -interest : 0
+    if (mode === 'prorate') return -Math.min(Math.floor(normalizeAmount(interest * ratio * factor)) / factor, Math.max(0, balance))
+    return -interest
+  }, rollback, { type: 'interest', uid })
+
+  const paid = normalizeAmount(-delta)
+  if (paid < interest) {
+    logger.warn(`金库 ${currency} 余额不足（${mode}）：uid=${uid} 应付利息 ${interest}，实际支付 ${paid}，未支付部分留待之后补发`)
+  }
+  return paid
+}
+
+/**
+ * 计算本轮到期记录中各货币利息可发放的比例（仅 prorate 模式）
+ * 比例 = 金库余额 / 本轮应付利息总额，不超过 1；未列出的货币按 1 处理
+ */
+async function getInterestRatios(ctx: Context, config: Config, records: MonetaryBankInterest[]): Promise<Map<string, number>> {
+  const ratios = new Map<string, number>()
+  if ((config.treasury?.mode || 'deficit') !== 'prorate') return ratios
+
+  const due: Record<string, number> = {}
+  for (const record of records) {
+    const units = record.type === 'demand'
+      ? BigInt(record.accruedInterest || '0')
+      : calculateInterestUnits(
+        record.amount,
+        record.rate,
+        getFixedPlans(config, record.currency).find(p => p.name === record.planName)?.tiers,
+        getRateDivisor(record.interestModel, record.cycle)
+      )
+    const { interest } = roundInterest(units, record.interestCarry, getPrecisionSettings(config, record.currency))
+    due[record.currency] = normalizeAmount((due[record.currency] || 0) + interest)
+  }
+
+  for (const [currency, total] of Object.entries(due)) {
+    const [treasury] = await ctx.database.get('monetary_bank_treasury', { currency })
+    const balance = Math.max(0, treasury?.balance || 0)
+    ratios.set(currency, total > 0 ? Math.min(1, balance / total) : 1)
+  }
+  return ratios
+}
+
+/**
+ * 持有某种货币的金库锁执行 fn
+ */
+async function withTreasuryLock<T>(currency: string, fn: () => Promise<T>): Promise<T> {
+  const release = await acquireLock(`treasury:${currency}`)
+  try {
+    return await fn()
+  } finally {
+    release()
+  }
+}
+
+/**
+ * 计算货币兑换报价
+ * 兑换所得 = 金额 × 汇率，扣除点差后按目标货币精度向下取整，差额（点差与取整零头）归入银行金库
+ * 无可用汇率或兑换所得过小时抛出 BankOperationError
+ */
+async function quoteExchange(config: Config, from: string, to: string, amount: number): Promise<{ rate: number; gross: number; fee: number; net: number }> {
+  const provider = exchangeRateProviders.get(activeExchangeRateProvider)
+  if (!provider) {
+    logger.warn(`汇率提供者 ${activeExchangeRateProvider} 未注册`)
+    throw new BankOperationError('汇率服务暂不可用，请稍后再试')
+  }
+
+  let rate: number | null
+  try {
+    rate = await provider.getRate(from, to)
+  } catch (err) {
+    logger.warn(`查询汇率失败 ${from} → ${to}：`, err)
+    throw new BankOperationError('汇率服务暂不可用，请稍后再试')
+  }
+  if (!rate || !Number.isFinite(rate) || rate <= 0) {
+    throw new BankOperationError(`暂不支持 ${from} 兑换为 ${to}`)
+  }
+
+  const spread = config.exchange?.spread ?? 1
+  const factor = 10 ** getPrecisionSettings(config, to).digits
+  const gross = normalizeAmount(amount * rate)
+  const net = Math.floor(normalizeAmount(gross * (100 - spread) / 100) * factor) / factor
+  if (net <= 0) {
+    throw new BankOperationError('兑换金额过小，扣除点差后无法兑换到目标货币')
+  }
+  return { rate, gross, fee: normalizeAmount(gross - net), net }
+}
+
+/**
+ * 创建活期记录（可回滚），撤销时删除该记录
+ * 活期利息按日终余额逐日计提，因此从 base 当天开始计提，结算日为下一个周期边界（无需 T+1）
+ */
+async function createDemandRecord(ctx: Context, config: Config, uid: number, currency: string, amount: number, rollback: Rollback, base: Date = new Date()): Promise<MonetaryBankInterest> {
+  const demandConfig = config.demandInterest || { enabled: true, rate: 0.25, cycle: 'day' }
+  const cycle = demandConfig.cycle || 'day'
+  const record = await ctx.database.create('monetary_bank_int', {
+    uid,
+    currency,
+    amount,
+    type: 'demand',
+    rate: getDemandRate(config, currency),
+    cycle,
+    settlementDate: calculateNextSettlementDate(cycle, false, base),
+    anchorDay: getAnchorDay(false, base),
+    extendRequested: false,
+    interestModel: demandConfig.model || 'compound',
+    accruedAt: startOfDay(base)
+  })
+  rollback.add(`创建活期记录 id=${record.id}`, () => ctx.database.remove('monetary_bank_int', { id: record.id }))
+  return record
+}
+
+/**
+ * 按结算日期先后从活期记录中扣除指定金额（可回滚）
+ * 取空的记录若还有已计提未发放的利息，则保留为金额 0 的记录，利息在结算日照常发放
+ * 被删除的记录在撤销时按原样重建，被修改的记录在撤销时恢复原金额
+ * 活期余额不足时抛出 BankOperationError（此时尚未做任何修改）
+ */
+async function deductDemandRecords(ctx: Context, uid: number, currency: string, amount: number, rollback: Rollback) {
+  const demandRecords = await ctx.database
+    .select('monetary_bank_int')
+    .where({ uid, currency, type: 'demand' })
+    .orderBy('settlementDate', 'asc')
+    .execute()
+
+  const available = normalizeAmount(demandRecords.reduce((sum, r) => sum + r.amount, 0))
+  if (available < amount) {
+    throw new BankOperationError(`可用余额不足，当前活期：${available} ${currency}`)
+  }
+
+  let remaining = amount
+  for (const record of demandRecords) {
+    if (remaining <= 0) break
+    if (record.amount <= 0) continue
+
+    if (record.amount <= remaining && BigInt(record.accruedInterest || '0') > 0n) {
+      remaining = normalizeAmount(remaining - record.amount)
+      await ctx.database.set('monetary_bank_int', { id: record.id }, { amount: 0 })
+      rollback.add(`修改活期记录 id=${record.id}`, () => ctx.database.set('monetary_bank_int', { id: record.id }, { amount: record.amount }))
+    } else if (record.amount <= remaining) {
+      remaining = normalizeAmount(remaining - record.amount)
+      await ctx.database.remove('monetary_bank_int', { id: record.id })
+      rollback.add(`删除活期记录 id=${record.id}`, () => ctx.database.create('monetary_bank_int', { ...record }))
+    } else {
+      const newAmount = normalizeAmount(record.amount - remaining)
+      await ctx.database.set('monetary_bank_int', { id: record.id }, { amount: newAmount })
+      rollback.add(`修改活期记录 id=${record.id}`, () => ctx.database.set('monetary_bank_int', { id: record.id }, { amount: record.amount }))
+      remaining = 0
+    }
+  }
+}
+
+/**
+ * 创建定期存款：优先扣除现金，不足部分从活期扣除，最后创建定期记录
+ * 持有用户资金锁，三个步骤作为整体执行，任一步失败时已完成的步骤会被回滚并抛出异常
+ */
+async function createFixedDeposit(
+  ctx: Context,
+  uid: number,
+  currency: string,
+  plan: FixedPlanConfig,
+  amount: number
+): Promise<{ fromCash: number; fromDemand: number; record: MonetaryBankInterest }> {
+  // 校验单笔金额限制
+  if (plan.minAmount && amount < plan.minAmount) {
+    throw new BankOperationError(`该方案单笔最低存入 ${plan.minAmount} ${currency}`)
+  }
+  if (plan.maxAmount && amount > plan.maxAmount) {
+    throw new BankOperationError(`该方案单笔最高存入 ${plan.maxAmount} ${currency}`)
+  }
+
+  return await withUserLock([{ uid, currency }], async () => {
+    // 校验该方案下的持有上限
+    if (plan.maxHolding) {
+      const holding = normalizeAmount((await ctx.database.get('monetary_bank_int', { uid, currency, type: 'fixed', planName: plan.name }))
+        .reduce((sum, r) => sum + r.amount, 0))
+      if (holding + amount > plan.maxHolding) {
+        throw new BankOperationError(`该方案每人最高持有 ${plan.maxHolding} ${currency}，您当前已持有 ${holding} ${currency}`)
+      }
+    }
+
+    return await withRollback(async (rollback) => {
+      const cash = await getMonetaryBalance(uid, currency) || 0
+      const fromCash = Math.max(0, Math.min(cash, amount))
+      const fromDemand = normalizeAmount(amount - fromCash)
+
+      if (fromCash > 0) {
+        await changeCash(ctx, uid, currency, -fromCash, rollback)
       }
+      if (fromDemand > 0) {
+        await deductDemandRecords(ctx, uid, currency, fromDemand, rollback)
+      }
+
+      const anchorDay = getAnchorDay(true)
+      const record = await ctx.database.create('monetary_bank_int', {
+        uid,
+        currency,
+        amount,
+        type: 'fixed',
+        rate: plan.rate,
+        cycle: plan.cycle,
+        settlementDate: calculateNextSettlementDate(plan.cycle, true, new Date(), anchorDay),
+        maturityDate: calculateMaturityDate(plan.cycle, plan.term, true, new Date(), anchorDay),
+        anchorDay,
+        extendRequested: false,
+        penaltyRate: plan.earlyPenaltyRate ?? 0,
+        earnedInterest: 0,
+        planName: plan.name,
+        interimInterest: plan.interimInterest || 'accrue',
+        interestModel: plan.model || 'compound'
+      })
+      rollback.add(`创建定期记录 id=${record.id}`, () => ctx.database.remove('monetary_bank_int', { id: record.id }))
+
+      return { fromCash, fromDemand, record }
     })
+  })
+}
 
-  // 注册命令：管理定期延期
-  ctx.command('bank.fixed.manage', '管理定期存款延期')
-    .userFields(['id'])
-    .option('currency', '-c <currency:string> 指定货币类型')
-    .action(async ({ session, options }) => {
-      if (!config.enableInterest) {
-        return '利息功能未启用。'
+/**
+ * 获取定期记录的提前支取违约金比例（%）
+ * 优先使用创建时锁定的比例；旧记录按利率与周期匹配当前方案，匹配不到视为 0
+ */
+function getEarlyPenaltyRate(config: Config, record: MonetaryBankInterest): number {
+  if (typeof record.penaltyRate === 'number') return record.penaltyRate
+  const plan = getFixedPlans(config, record.currency).find(p => p.rate === record.rate && p.cycle === record.cycle)
+  return plan?.earlyPenaltyRate ?? 0
+}
+
+/**
+ * 计算提前支取扣回的利息、违约金与实际到账金额
+ * 本存期内已发放的利息（计入本金或转出的）按支取金额占定期金额的比例扣回，按货币精度向下取整；
+ * 违约金按扣回利息后的支取本金精确计算，按货币精度与取整方式取整（与利息一致），最多不超过该本金
+ */
+function calculateEarlyWithdrawal(config: Config, record: MonetaryBankInterest, amount: number): { forfeited: number; penalty: number; net: number } {
+  const settings = getPrecisionSettings(config, record.currency)
+  const factor = 10 ** settings.digits
+  const earned = record.earnedInterest || 0
+  const forfeited = amount >= record.amount
+    ? Math.min(amount, earned)
+    : Math.min(amount, Math.floor(normalizeAmount(earned * amount / record.amount * factor)) / factor)
+  const principal = normalizeAmount(amount - forfeited)
+  const { interest } = roundInterest(calculateInterestUnits(principal, getEarlyPenaltyRate(config, record)), undefined, settings)
+  const penalty = Math.min(principal, interest)
+  return { forfeited, penalty, net: normalizeAmount(principal - penalty) }
+}
+
+/**
+ * 提前支取定期存款（全部或部分），扣回本存期内已发放的利息并扣除违约金后转入现金
+ * 扣回的利息与违约金计入银行金库；持有用户资金锁，部分支取时剩余本金继续按原方案存放
+ */
+async function earlyWithdrawFixed(
+  ctx: Context,
+  config: Config,
+  uid: number,
+  currency: string,
+  recordId: number,
+  amount: number
+): Promise<{ principal: number; forfeited: number; penalty: number; net: number; remaining: number; newCash: number }> {
+  return await withUserLock([{ uid, currency }], async () => {
+    // 加锁后重新读取记录：排队期间记录可能已到期结算
+    const [record] = await ctx.database.get('monetary_bank_int', { id: recordId, uid, currency, type: 'fixed' })
+    if (!record) throw new BankOperationError('该定期存款已不存在（可能已到期转为活期）')
+    if (record.pledged) throw new BankOperationError('该定期存款已质押，请先还清质押贷款')
+    if (amount > record.amount) throw new BankOperationError(`支取金额超过定期金额（${record.amount} ${currency}）`)
+
+    const { forfeited, penalty, net } = calculateEarlyWithdrawal(config, record, amount)
+    const remaining = normalizeAmount(record.amount - amount)
+    const earnedInterest = normalizeAmount((record.earnedInterest || 0) - forfeited)
+
+    const newCash = await withRollback(async (rollback) => {
+      if (remaining > 0) {
+        await ctx.database.set('monetary_bank_int', { id: record.id }, { amount: remaining, earnedInterest })
+        rollback.add(`修改定期记录 id=${record.id}`, () => ctx.database.set('monetary_bank_int', { id: record.id }, { amount: record.amount, earnedInterest: record.earnedInterest }))
+      } else {
+        await ctx.database.remove('monetary_bank_int', { id: record.id })
+        rollback.add(`删除定期记录 id=${record.id}`, () => ctx.database.create('monetary_bank_int', { ...record }))
       }
+      if (forfeited > 0) {
+        await changeTreasury(ctx, currency, forfeited, rollback, { type: 'interest', uid, note: `定期 #${record.id} 提前支取扣回利息` })
+      }
+      if (penalty > 0) {
+        await changeTreasury(ctx, currency, penalty, rollback, { type: 'early_penalty', uid, note: `定期 #${record.id} 提前支取 ${amount}` })
+      }
+      return net > 0
+        ? await changeCash(ctx, uid, currency, net, rollback)
+        : await getMonetaryBalance(uid, currency) || 0
+    })
+
+    await recordTransaction(ctx, {
+      uid,
+      currency,
+      type: 'fixed_early',
+      amount,
+      recordId: record.id,
+      note: `${forfeited > 0 ? `扣回利息 ${forfeited}，` : ''}违约金 ${penalty}，到账现金 ${net}${remaining > 0 ? `，剩余定期 ${remaining}` : ''}`
+    })
+    logInfo(`定期提前支取: uid=${uid}, id=${record.id}, 支取=${amount}, 扣回利息=${forfeited}, 违约金=${penalty}, 到账=${net}`)
+
+    return { principal: amount, forfeited, penalty, net, remaining, newCash }
+  })
+}
+
+/**
+ * 校验 IANA 时区名，无效时记录错误并回退到系统时区（空字符串）
+ */
+function resolveTimezone(timezone: string | undefined): string {
+  if (!timezone) return ''
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return timezone
+  } catch {
+    logger.error(`时区配置无效，已改用系统时区: ${timezone}`)
+    return ''
+  }
+}
+
+// 各时区的日期格式化器缓存
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * 获取某一时刻在配置时区中的年月日、时分秒与星期（0=周日）
+ */
+function getZonedParts(date: Date): { year: number; month: number; day: number; hour: number; minute: number; second: number; weekday: number } {
+  const timezone = dateSettings.timezone
+  let formatter = zonedFormatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone || undefined,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short'
+    })
+    zonedFormatters.set(timezone, formatter)
+  }
+
+  const parts: Record<string, string> = {}
+  for (const part of formatter.formatToParts(date)) parts[part.type] = part.value
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday)
+  }
+}
+
+/**
+ * 配置时区在某一时刻相对 UTC 的偏移（毫秒）
+ */
+function getTimezoneOffset(date: Date): number {
+  const p = getZonedParts(date)
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * 配置时区中某一日期的0点；日期超出当月天数时自动进位（如 1月32日 即 2月1日）
+ * 0点因夏令时跳过而不存在时，返回当天最早的有效时刻
+ */
+function zonedMidnight(year: number, month: number, day: number): Date {
+  const utc = Date.UTC(year, month - 1, day)
+  // 偏移量取决于结果时刻本身，先按近似时刻求一次再用结果修正一次以处理夏令时切换
+  let time = utc - getTimezoneOffset(new Date(utc))
+  time = utc - getTimezoneOffset(new Date(time))
+  const target = new Date(utc)
+  const parts = getZonedParts(new Date(time))
+  if (parts.day !== target.getUTCDate()) {
+    // 0点不存在（时钟从 23:59 直接跳到 01:00），结果落在了前一天，顺延到切换后的时刻
+    time += (24 - parts.hour) * 60 * 60 * 1000 - parts.minute * 60 * 1000
+  }
+  return new Date(time)
+}
+
+/**
+ * 某一时刻在配置时区中当天的0点
+ */
+function startOfDay(date: Date = new Date()): Date {
+  const p = getZonedParts(date)
+  return zonedMidnight(p.year, p.month, p.day)
+}
+
+/**
+ * 按日历日加减天数，返回配置时区中目标日期的0点（夏令时切换日的 23/25 小时也按一天计）
+ */
+function addDays(date: Date, days: number): Date {
+  const p = getZonedParts(date)
+  return zonedMidnight(p.year, p.month, p.day + days)
+}
+
+/**
+ * 按日历月加减月数，返回配置时区中目标日期的0点
+ * 目标月份没有锚定日时（如 1月31日 加一个月）按该月最后一天计
+ * @param anchorDay 锚定日（1-31），默认取 date 当天的日期
+ */
+function addMonths(date: Date, months: number, anchorDay?: number): Date {
+  const p = getZonedParts(date)
+  const index = p.year * 12 + (p.month - 1) + months
+  const year = Math.floor(index / 12)
+  const month = index % 12 + 1
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  return zonedMidnight(year, month, Math.min(anchorDay || p.day, daysInMonth))
+}
+
+/**
+ * 计算按月结算的锚定日：新存款为 T+1 当天的日期，否则为 base 当天的日期
+ */
+function getAnchorDay(isNew: boolean = false, base: Date = new Date()): number {
+  return getZonedParts(isNew ? addDays(base, 1) : base).day
+}
+
+/**
+ * 按配置时区格式化日期，如 2024/1/31
+ */
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString('zh-CN', { timeZone: dateSettings.timezone || undefined })
+}
+
+/**
+ * 按配置时区格式化日期时间
+ */
+function formatDateTime(date: Date): string {
+  return new Date(date).toLocaleString('zh-CN', { timeZone: dateSettings.timezone || undefined, hour12: false })
+}
+
+/**
+ * 按配置时区生成日期键，如 2024-01-31
+ */
+function formatDateKey(date: Date): string {
+  const p = getZonedParts(date)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`
+}
+
+/**
+ * 计算下次结算日期（T+1方案）
+ * 日期均按配置时区的日历计算：按日为次日0点；按周为至少 7 天后的锚定星期；
+ * 按月为下个月的锚定日（小月按月末）
+ * @param cycle 结算周期
+ * @param isNew 是否为新存款（新存款使用T+1）
+ * @param base 计算起点（默认为当前时间）
+ * @param anchorDay 按月结算的锚定日（默认取起点当天的日期）
+ * @returns 下次结算日期
+ */
+function calculateNextSettlementDate(cycle: 'day' | 'week' | 'month', isNew: boolean = false, base: Date = new Date(), anchorDay?: number): Date {
+  // 新存款T+1，从明天0点开始计算
+  const start = isNew ? addDays(base, 1) : startOfDay(base)
+  
+  // 根据周期计算下次结算日期
+  switch (cycle) {
+    case 'week': {
+      const earliest = addDays(start, 7)
+      return addDays(earliest, (dateSettings.weekAnchor - getZonedParts(earliest).weekday + 7) % 7)
+    }
+    case 'month':
+      return addMonths(start, 1, anchorDay)
+    default:
+      return addDays(start, 1)
+  }
+}
+
+/**
+ * 生成定期方案的存期与限额说明，如"存期 3月 · 每月计息转活期 · 单笔 100~5000"
+ */
+function describePlanTerms(plan: FixedPlanConfig): string {
+  const parts = [`存期 ${plan.term || 1}${CYCLE_LABELS[plan.cycle] || plan.cycle}`]
+  if (plan.model && plan.model !== 'compound') {
+    parts.push(INTEREST_MODEL_LABELS[plan.model])
+  }
+  if ((plan.term || 1) > 1) {
+    parts.push(`每${CYCLE_LABELS[plan.cycle]}计息${plan.interimInterest === 'payout' ? '转活期' : '计入本金'}`)
+  }
+  if (plan.minAmount || plan.maxAmount) {
+    parts.push(`单笔 ${plan.minAmount || 0}~${plan.maxAmount || '不限'}`)
+  }
+  if (plan.maxHolding) {
+    parts.push(`每人限持 ${plan.maxHolding}`)
+  }
+  return parts.join(' · ')
+}
+
+/**
+ * 利率折算除数：年化模式下年利率按每年周期数折算为每周期利率，其他模式利率本身即为每周期利率
+ */
+function getRateDivisor(model: InterestModel | undefined, cycle: 'day' | 'week' | 'month'): number {
+  return model === 'apr' ? CYCLES_PER_YEAR[cycle] || 1 : 1
+}
+
+/**
+ * 计算年化收益率（APY，百分比）
+ * 复利与年化模式按每年周期数复利计算，单利模式利息转出不再生息，按周期数简单累加
+ */
+function calculateAPY(rate: number, model: InterestModel | undefined, cycle: 'day' | 'week' | 'month'): number {
+  const periods = CYCLES_PER_YEAR[cycle] || 1
+  const cycleRate = rate / 100 / getRateDivisor(model, cycle)
+  if (model === 'simple') return cycleRate * periods * 100
+  return (Math.pow(1 + cycleRate, periods) - 1) * 100
+}
+
+/**
+ * 生成利率说明，如"4.35% / 周"、"年利率 3%"，以及年化收益率
+ */
+function describeRate(rate: number, model: InterestModel | undefined, cycle: 'day' | 'week' | 'month'): string {
+  const rateText = model === 'apr' ? `年利率 ${rate}%` : `${rate}% / ${CYCLE_LABELS[cycle] || cycle}`
+  const apy = Number(calculateAPY(rate, model, cycle).toFixed(2))
+  return `${rateText}（年化收益 ${apy.toLocaleString()}%）`
+}
+
+/**
+ * 计算定期到期日期：首个结算日之后再经过 (term - 1) 个周期
+ * @param cycle 结算周期
+ * @param term 存期（周期数）
+ * @param isNew 是否为新存款（新存款使用T+1）
+ */
+function calculateMaturityDate(cycle: 'day' | 'week' | 'month', term: number = 1, isNew: boolean = false, base: Date = new Date(), anchorDay?: number): Date {
+  let maturity = calculateNextSettlementDate(cycle, isNew, base, anchorDay)
+  for (let i = 1; i < Math.max(1, term); i++) {
+    maturity = calculateNextSettlementDate(cycle, false, maturity, anchorDay)
+  }
+  return maturity
+}
+
+/**
+ * 读取插件运行状态
+ */
+async function getMeta(ctx: Context, key: string): Promise<string | null> {
+  const [meta] = await ctx.database.get('monetary_bank_meta', { key })
+  return meta?.value ?? null
+}
+
+/**
+ * 写入插件运行状态
+ */
+async function setMeta(ctx: Context, key: string, value: string) {
+  await ctx.database.upsert('monetary_bank_meta', [{ key, value, updatedAt: new Date() }])
+}
+
+// 最近一次完成结算的日期（当天0点）
+const META_LAST_SETTLEMENT = 'lastSettlementDate'
+
+// 结算租约：value 为持有者实例ID，expiresAt 为到期时间
+const META_SETTLEMENT_LEASE = 'settlementLease'
+
+/**
+ * 每日结算标记的键，如 settled:2024-01-31，value 为完成结算的实例ID
+ */
+function getSettledMarkerKey(day: Date): string {
+  return `settled:${formatDateKey(day)}`
+}
+
+/**
+ * 获取或续期结算租约
+ * 租约不存在时直接创建；已存在时仅在已过期或由本实例持有时更新（条件更新在数据库端原子执行），
+ * 更新后回读确认持有者，保证同一时刻只有一个实例持有租约
+ * @returns 本实例是否持有租约
+ */
+async function acquireSettlementLease(ctx: Context, owner: string, duration: number): Promise<boolean> {
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + duration)
+
+  const [lease] = await ctx.database.get('monetary_bank_meta', { key: META_SETTLEMENT_LEASE })
+  if (!lease) {
+    try {
+      await ctx.database.create('monetary_bank_meta', { key: META_SETTLEMENT_LEASE, value: owner, updatedAt: now, expiresAt })
+      return true
+    } catch {
+      // 其他实例同时创建了租约，按已存在处理
+    }
+  }
+
+  await ctx.database.set('monetary_bank_meta', {
+    key: META_SETTLEMENT_LEASE,
+    $or: [{ value: owner }, { expiresAt: { $lt: now } }]
+  }, { value: owner, updatedAt: now, expiresAt })
+
+  const [current] = await ctx.database.get('monetary_bank_meta', { key: META_SETTLEMENT_LEASE })
+  return current?.value === owner
+}
+
+/**
+ * 释放本实例持有的结算租约
+ */
+async function releaseSettlementLease(ctx: Context, owner: string) {
+  await ctx.database.set('monetary_bank_meta', { key: META_SETTLEMENT_LEASE, value: owner }, { expiresAt: new Date() })
+}
+
+// 单个结算日内的最大结算轮数，防止异常数据导致死循环
+const MAX_SETTLEMENT_PASSES = 1000
+
+// setTimeout 支持的最大延时（约 24.8 天）
+const MAX_TIMEOUT = 2 ** 31 - 1
+
+// 结算是否正在执行（模块级，插件重载前后的实例共享，避免新旧实例同时结算）
+let settlementRunning = false
+
+/**
+ * 结算指定日期及之前到期的全部利息
+ * 每一轮对每条到期记录只结算一个周期，并从其原结算日顺延下次结算日；
+ * 逾期多个周期的记录会在后续轮次中继续结算，直到下次结算日晚于该日期
+ */
+async function settleInterestForDay(ctx: Context, config: Config, day: Date) {
+  // 先计提截至当天的活期利息，再发放到期记录的利息
+  await accrueDemandInterest(ctx, config, day)
+
+  let lastSignature = ''
+  for (let pass = 0; pass < MAX_SETTLEMENT_PASSES; pass++) {
+    // 查询需要结算的记录（结算日期是当天或之前）
+    const records = await ctx.database.get('monetary_bank_int', { settlementDate: { $lt: addDays(day, 1) } })
+    if (records.length === 0) return
+
+    // 上一轮结算未能推进任何记录（如持续写入失败），停止本日结算，留待下次重试
+    const signature = records.map(r => `${r.id}:${new Date(r.settlementDate).getTime()}`).join(',')
+    if (signature === lastSignature) {
+      logger.warn(`利息结算未能推进 ${records.length} 条记录，已跳过，将在下次结算时重试`)
+      return
+    }
+    lastSignature = signature
+
+    // 按比例发放模式下，按金库余额与本轮应付利息总额计算各货币的发放比例
+    const ratios = await getInterestRatios(ctx, config, records)
+
+    // 活期按用户+货币分组结算
+    const demandGroups: Record<string, MonetaryBankInterest[]> = {}
+    for (const record of records) {
+      if (record.type !== 'demand') continue
+      const key = `${record.uid}|${record.currency}`
+      if (!demandGroups[key]) demandGroups[key] = []
+      demandGroups[key].push(record)
+    }
+    for (const group of Object.values(demandGroups)) {
+      await settleDemandInterest(ctx, config, group, ratios.get(group[0].currency) ?? 1)
+    }
+
+    // 定期逐条结算
+    for (const record of records) {
+      if (record.type === 'fixed') {
+        await settleFixedInterest(ctx, config, record, ratios.get(record.currency) ?? 1)
+      }
+    }
+  }
+  logger.warn(`利息结算轮数超过上限 ${MAX_SETTLEMENT_PASSES}，剩余记录将在下次结算时继续处理`)
+}
+
+/**
+ * 解析后的 cron 表达式，每个字段为允许取值的集合
+ */
+interface CronSchedule {
+  minute: Set<number>
+  hour: Set<number>
+  day: Set<number>
+  month: Set<number>
+  weekday: Set<number>
+  dayRestricted: boolean      // 日字段是否不为 *
+  weekdayRestricted: boolean  // 周字段是否不为 *
+}
+
+/**
+ * 解析 cron 表达式（分 时 日 月 周），支持 *、数字、列表(,)、范围(-)与步长(/)
+ * 周字段 0 和 7 均表示周日；表达式无效时抛出 Error
+ */
+function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`cron 表达式应包含 5 个字段（分 时 日 月 周）：${expression}`)
+  }
+
+  const parseField = (field: string, min: number, max: number): Set<number> => {
+    const values = new Set<number>()
+    for (const part of field.split(',')) {
+      const [range, stepText] = part.split('/')
+      const step = stepText === undefined ? 1 : Number(stepText)
+      let from = min
+      let to = max
+      if (range !== '*') {
+        const [start, end] = range.split('-').map(Number)
+        from = start
+        to = end ?? (stepText === undefined ? start : max)
+      }
+      if (![from, to, step].every(Number.isInteger) || step < 1 || from < min || to > max || from > to) {
+        throw new Error(`cron 字段无效：${field}`)
+      }
+      for (let value = from; value <= to; value += step) values.add(value)
+    }
+    return values
+  }
+
+  const weekday = parseField(fields[4], 0, 7)
+  if (weekday.has(7)) weekday.add(0)
+
+  return {
+    minute: parseField(fields[0], 0, 59),
+    hour: parseField(fields[1], 0, 23),
+    day: parseField(fields[2], 1, 31),
+    month: parseField(fields[3], 1, 12),
+    weekday,
+    dayRestricted: fields[2] !== '*',
+    weekdayRestricted: fields[4] !== '*'
+  }
+}
+
+/**
+ * 计算 cron 表达式在指定时区内晚于 from 的下一次触发时间
+ * 按指定时区的本地时刻逐分钟匹配，小时/日期不匹配时直接跳到下一个整点；最多向后查找 5 年
+ * @param timezone IANA 时区名，为空时使用系统时区
+ */
+function getNextCronTime(schedule: CronSchedule, timezone: string, from: Date): Date | null {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone || undefined,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short'
+  })
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+  const minuteMs = 60 * 1000
+  let time = Math.floor(from.getTime() / minuteMs) * minuteMs + minuteMs
+  const limit = from.getTime() + 5 * 366 * 24 * 60 * minuteMs
+
+  while (time <= limit) {
+    const parts: Record<string, string> = {}
+    for (const part of formatter.formatToParts(new Date(time))) parts[part.type] = part.value
+    const minute = Number(parts.minute)
+
+    // 标准 cron 语义：日与周字段同时受限时满足其一即可
+    const dayMatch = schedule.day.has(Number(parts.day))
+    const weekdayMatch = schedule.weekday.has(weekdays.indexOf(parts.weekday))
+    const dateMatch = schedule.dayRestricted && schedule.weekdayRestricted
+      ? dayMatch || weekdayMatch
+      : dayMatch && weekdayMatch
+
+    if (!schedule.month.has(Number(parts.month)) || !dateMatch || !schedule.hour.has(Number(parts.hour))) {
+      time += (60 - minute) * minuteMs
+      continue
+    }
+    if (schedule.minute.has(minute)) return new Date(time)
+    time += minuteMs
+  }
+  return null
+}
+
+/**
+ * 利息结算定时任务
+ * 按 settlementCron（默认每日0点）检查并结算到期的利息；最近完成结算的日期持久化在 monetary_bank_meta 表中，
+ * 启动时按日期顺序补结算离线期间已到 cron 触发时间、但未执行的结算日
+ * 定时器通过 ctx.setTimeout 创建，插件卸载或重载时随上下文一并清除
+ */
+async function scheduleInterestSettlement(ctx: Context, config: Config) {
+  if (!config.enableInterest && !config.standingOrder?.enabled && !config.loan?.enabled && !config.overdraft?.enabled && !config.credit?.enabled) return
+  
+  const cronExpression = config.settlementCron || '0 0 * * *'
+  let schedule: CronSchedule
+  try {
+    schedule = parseCron(cronExpression)
+  } catch (error) {
+    logger.error(`结算时间配置无效，已改用每日0点: ${error.message}`)
+    schedule = parseCron('0 0 * * *')
+  }
+
+  const timezone = dateSettings.timezone
+
+  // 本实例的结算租约持有者ID与租约时长
+  const instanceId = Random.id()
+  const leaseDuration = (config.settlementLease || 10) * 60 * 1000
+
+  // 插件卸载后不再执行或排程新的结算
+  let disposed = false
+  ctx.on('dispose', () => {
+    disposed = true
+  })
+
+  // 执行指定日期的结算
+  async function performSettlement(day: Date) {
+    // 计提贷款利息并处理逾期贷款（与利息结算互不影响）
+    // 先于利息结算执行，使到期定期偿还质押贷款时利息已计提到当天
+    if (config.loan?.enabled) {
+      try {
+        await accrueLoanInterest(ctx, config, day)
+        await collectOverdueLoans(ctx, day)
+      } catch (error) {
+        logger.error('贷款结算任务执行失败:', error)
+      }
+    }
+
+    try {
+      if (config.enableInterest) {
+        logInfo(`开始执行利息结算任务（${formatDateKey(day)}）...`)
+        await settleInterestForDay(ctx, config, day)
+      
+        // 结算完成后合并可合并的活期记录以减少碎片记录
+        await mergeDemandRecords(ctx)
+
+        logSuccess('利息结算任务执行完成')
+      }
+    } catch (error) {
+      logger.error('利息结算任务执行失败:', error)
+    }
+
+    // 记录活期余额快照（在利息结算之后，使快照包含当天发放的利息），用于透支额度与信用分
+    if (config.overdraft?.enabled || config.credit?.enabled) {
+      try {
+        await snapshotDemandBalances(ctx, config, day)
+      } catch (error) {
+        logger.error('记录活期余额快照失败:', error)
+      }
+    }
+
+    // 计提透支利息并以活期自动还款
+    if (config.overdraft?.enabled) {
+      try {
+        await accrueOverdraftInterest(ctx, config, day)
+        await sweepOverdrafts(ctx)
+      } catch (error) {
+        logger.error('透支结算任务执行失败:', error)
+      }
+    }
+
+    // 重新计算信用分（在贷款与透支处理之后）
+    if (config.credit?.enabled) {
+      try {
+        await updateCreditScores(ctx, config, day)
+      } catch (error) {
+        logger.error('信用分计算任务执行失败:', error)
+      }
+    }
+
+    // 执行到期的定时任务（与利息结算互不影响）
+    if (config.standingOrder?.enabled) {
+      await executeStandingOrders(ctx, config, day)
+    }
+  }
+
+  // 按顺序补结算最近完成结算日期之后、截至 until 已到触发时间的各结算日（调用方需持有结算租约）
+  // 结算日为 cron 触发时刻所在的日期，同一天多次触发只结算一次；尚未到触发时间的日期留给定时器
+  // 没有结算记录（首次运行）时只结算 until 时刻本身的触发，不在启动时提前结算
+  async function catchUpSettlement(until: Date) {
+    const lastSettled = await getMeta(ctx, META_LAST_SETTLEMENT)
+    let from = lastSettled ? new Date(addDays(new Date(lastSettled), 1).getTime() - 1) : new Date(until.getTime() - 1)
+
+    const days: Date[] = []
+    for (let fire = getNextCronTime(schedule, timezone, from); fire && fire <= until; fire = getNextCronTime(schedule, timezone, from)) {
+      const day = startOfDay(fire)
+      if (!days.length || day > days[days.length - 1]) days.push(day)
+      from = fire
+    }
+
+    if (days.length > 1) {
+      logInfo(`检测到 ${days.length} 个结算日未结算，开始补结算`)
+    } else if (!days.length) {
+      logInfo('没有已到结算时间的未结算日期，跳过')
+    }
+
+    for (const day of days) {
+      if (disposed) return
+
+      // 每结算一天续期一次租约；租约已被其他实例接管时停止
+      if (!await acquireSettlementLease(ctx, instanceId, leaseDuration)) {
+        logInfo('结算租约已被其他实例接管，停止本次结算')
+        return
+      }
+
+      // 已有实例完成该日结算（如租约过期后被接管前刚好写完标记）时跳过
+      const markerKey = getSettledMarkerKey(day)
+      const settledBy = await getMeta(ctx, markerKey)
+      if (settledBy) {
+        logInfo(`${formatDateKey(day)} 已由实例 ${settledBy} 完成结算，跳过`)
+      } else {
+        await performSettlement(day)
+        await setMeta(ctx, markerKey, instanceId)
+      }
+      await setMeta(ctx, META_LAST_SETTLEMENT, day.toISOString())
+    }
+  }
+
+  // 带并发保护的结算入口：本实例上一次结算尚未结束，或其他实例正持有结算租约时跳过本次触发
+  async function runSettlement(until: Date) {
+    if (settlementRunning) {
+      logInfo('上一次结算仍在执行，跳过本次触发')
+      return
+    }
+    settlementRunning = true
+    try {
+      if (!await acquireSettlementLease(ctx, instanceId, leaseDuration)) {
+        logInfo('其他实例正在执行结算，跳过本次触发')
+        return
+      }
+      try {
+        await catchUpSettlement(until)
+      } finally {
+        await releaseSettlementLease(ctx, instanceId)
+      }
+    } catch (error) {
+      logger.error('结算任务执行失败:', error)
+    } finally {
+      settlementRunning = false
+    }
+  }
+
+  // 按 cron 表达式排程下一次结算（setTimeout 单次延时有上限，超出时分段等待）
+  function scheduleNext() {
+    if (disposed) return
+    const next = getNextCronTime(schedule, timezone, new Date())
+    if (!next) {
+      logger.error(`结算时间 ${cronExpression} 在未来 5 年内没有触发时间，定时结算未启动`)
+      return
+    }
+    const delay = next.getTime() - Date.now()
+    if (delay > MAX_TIMEOUT) {
+      ctx.setTimeout(scheduleNext, MAX_TIMEOUT)
+      return
+    }
+    ctx.setTimeout(async () => {
+      // 定时器可能略早于触发时刻回调，按触发时刻结算
+      await runSettlement(new Date(Math.max(Date.now(), next.getTime())))
+      scheduleNext()
+    }, delay)
+    logInfo(`下一次结算时间：${next.toLocaleString()}`)
+  }
+
+  // 启动时补结算离线期间已到触发时间的结算日；今天尚未到触发时间时由定时器执行
+  await runSettlement(new Date())
+  scheduleNext()
+
+  logInfo(`利息结算定时任务已启动，执行时间：${cronExpression}${timezone ? `（${timezone}）` : ''}`)
+}
+
+/**
+ * 执行所有到期的定时任务
+ * - 通过 MonetaryBankAPI 执行，幂等键为"任务ID+本期执行日期"，同一期不会重复执行
+ * - 成功：按周期推进下次执行日期并清零失败次数
+ * - 失败（如余额不足）：累计失败次数并通知用户，次日继续重试；连续失败达到上限后自动暂停
+ */
+async function executeStandingOrders(ctx: Context, config: Config, day: Date = startOfDay()) {
+  try {
+    const orders = await ctx.database.get('monetary_bank_order', { status: 'active', nextRunDate: { $lt: addDays(day, 1) } })
+    if (orders.length === 0) return
+
+    logInfo(`开始执行定时任务，共 ${orders.length} 条`)
+    const maxFailures = config.standingOrder?.maxFailures ?? 3
+
+    for (const order of orders) {
+      const runDate = new Date(order.nextRunDate)
+      const idempotencyKey = `standing-order:${order.id}:${runDate.getTime()}`
+      const result = order.kind === 'transfer'
+        ? await ctx.monetaryBank.transfer(order.uid, order.toUid, order.currency, order.amount, idempotencyKey)
+        : await ctx.monetaryBank.deposit(order.uid, order.currency, order.amount, idempotencyKey)
+      const description = describeStandingOrder(order)
+
+      try {
+        if (result.success) {
+          await ctx.database.set('monetary_bank_order', { id: order.id }, {
+            nextRunDate: calculateNextSettlementDate(order.interval, false, runDate),
+            failCount: 0,
+            lastError: null
+          })
+          logInfo(`定时任务执行成功 id=${order.id}: ${description}`)
+          continue
+        }
+
+        const failCount = order.failCount + 1
+        const suspended = maxFailures > 0 && failCount >= maxFailures
+        await ctx.database.set('monetary_bank_order', { id: order.id }, {
+          failCount,
+          lastError: result.error || '执行失败',
+          status: suspended ? 'suspended' : 'active'
+        })
+        logInfo(`定时任务执行失败 id=${order.id}: ${result.error}（连续失败 ${failCount} 次）`)
+
+        await notifyStandingOrderOwner(ctx, order, suspended
+          ? `定时任务 #${order.id}（${description}）已连续失败 ${failCount} 次，已自动暂停。\n失败原因：${result.error}`
+          : `定时任务 #${order.id}（${description}）执行失败：${result.error}\n将于下次结算时重试（连续失败 ${maxFailures} 次后自动暂停）。`)
+      } catch (err) {
+        logger.error(`更新定时任务状态失败 id=${order.id}:`, err)
+      }
+    }
+  } catch (error) {
+    logger.error('执行定时任务失败:', error)
+  }
+}
+
+/**
+ * 生成定时任务的简要描述
+ */
+function describeStandingOrder(order: MonetaryBankStandingOrder): string {
+  const interval = `每${CYCLE_LABELS[order.interval] || order.interval}`
+  return order.kind === 'transfer'
+    ? `${interval}向 ${order.toName || `uid=${order.toUid}`} 转账 ${order.amount} ${order.currency}`
+    : `${interval}存入 ${order.amount} ${order.currency}`
+}
+
+/**
+ * 通知定时任务所有者：优先私聊，失败时回退到创建任务时所在的频道
+ */
+async function notifyStandingOrderOwner(ctx: Context, order: MonetaryBankStandingOrder, message: string) {
+  const bot = ctx.bots[`${order.platform}:${order.selfId}`]
+  if (!bot) {
+    logger.warn(`无法通知定时任务所有者 id=${order.id}：机器人 ${order.platform}:${order.selfId} 不在线`)
+    return
+  }
+
+  try {
+    await bot.sendPrivateMessage(order.userId, message)
+  } catch (err) {
+    if (!order.channelId) {
+      logger.warn(`私聊通知定时任务所有者失败 id=${order.id}：`, err)
+      return
+    }
+    try {
+      await bot.sendMessage(order.channelId, h('at', { id: order.userId }) + ' ' + message)
+    } catch (e) {
+      logger.warn(`通知定时任务所有者失败 id=${order.id}：`, e)
+    }
+  }
+}
+
+/**
+ * 消除浮点加减误差：金额最多保留 MAX_PRECISION 位小数
+ */
+function normalizeAmount(value: number): number {
+  const factor = 10 ** MAX_PRECISION
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * 获取货币的金额精度与利息取整方式（precision 中按货币单独配置优先，其次为货币列表中的精度）
+ */
+function getPrecisionSettings(config: Config, currency: string): { digits: number; rounding: RoundingMode } {
+  const custom = (config.precision?.currencies || []).find(c => c.currency === currency)
+  return {
+    digits: Math.min(MAX_PRECISION, custom?.digits ?? getCurrencyConfig(config, currency)?.digits ?? config.precision?.digits ?? 0),
+    rounding: custom?.rounding || config.precision?.rounding || 'floor'
+  }
+}
+
+/**
+ * 按取整方式做整数除法（除数为正）
+ */
+function divideWithRounding(numerator: bigint, denominator: bigint, rounding: RoundingMode): bigint {
+  let quotient = numerator / denominator
+  if (numerator % denominator !== 0n && numerator < 0n) quotient -= 1n  // 向下取整
+  const remainder = numerator - quotient * denominator
+
+  switch (rounding) {
+    case 'half-up':
+      return remainder * 2n >= denominator ? quotient + 1n : quotient
+    case 'banker':
+      if (remainder * 2n > denominator) return quotient + 1n
+      if (remainder * 2n === denominator && quotient % 2n !== 0n) return quotient + 1n
+      return quotient
+    default:
+      return quotient
+  }
+}
+
+/**
+ * 精确计算一个周期的利息，结果以 INTEREST_UNIT 为单位
+ * 配置了阶梯利率时按档位边际计算，否则使用统一利率；rateDivisor 用于年化利率折算为每周期利率
+ */
+function calculateInterestUnits(amount: number, rate: number, tiers: InterestTier[] = [], rateDivisor: number = 1): bigint {
+  const toAmountUnits = (value: number) => BigInt(Math.round(value * 10 ** MAX_PRECISION))
+  const toRateUnits = (value: number) => BigInt(Math.round(value * Number(RATE_SCALE)))
+
+  const units = tiers.length
+    ? calculateTieredInterest(amount, tiers).breakdown
+      .reduce((sum, tier) => sum + toAmountUnits(tier.portion) * toRateUnits(tier.rate), 0n)
+    : toAmountUnits(amount) * toRateUnits(rate)
+  return units / BigInt(rateDivisor)
+}
+
+/**
+ * 将精确利息加上上期零头后，按货币精度与取整方式取整
+ * @returns 本期发放的利息与结转到下期的零头
+ */
+function roundInterest(units: bigint, carry: string | undefined, settings: { digits: number; rounding: RoundingMode }): { interest: number; minor: bigint; carry: string } {
+  const total = units + BigInt(carry || '0')
+  const step = INTEREST_UNIT / 10n ** BigInt(settings.digits)
+  const minor = divideWithRounding(total, step, settings.rounding)
+  return { interest: Number(minor) / 10 ** settings.digits, minor, carry: String(total - minor * step) }
+}
+
+/**
+ * 金库未能足额支付的利息，换算为 INTEREST_UNIT 单位，留待之后的结算补发
+ */
+function getUnpaidInterestUnits(due: number, paid: number, digits: number): bigint {
+  const unpaid = BigInt(Math.round((due - paid) * 10 ** digits))
+  return unpaid > 0n ? unpaid * (INTEREST_UNIT / 10n ** BigInt(digits)) : 0n
+}
+
+/**
+ * 按阶梯利率边际计算利息（未取整）
+ * 档位按上限从低到高排序，余额依次填满各档，每档只对落在该档内的部分计息
+ * @returns 利息总额与各档明细
+ */
+function calculateTieredInterest(amount: number, tiers: InterestTier[]): {
+  interest: number
+  breakdown: Array<{ from: number; to: number; portion: number; rate: number; interest: number }>
+} {
+  const sorted = [...tiers].sort((a, b) => (a.upTo || Infinity) - (b.upTo || Infinity))
+  const breakdown: Array<{ from: number; to: number; portion: number; rate: number; interest: number }> = []
+  let interest = 0
+  let from = 0
+
+  for (const tier of sorted) {
+    const to = tier.upTo || Infinity
+    if (to <= from) continue
+    const portion = Math.max(0, Math.min(amount, to) - from)
+    const tierInterest = portion * tier.rate / 100
+    breakdown.push({ from, to, portion, rate: tier.rate, interest: tierInterest })
+    interest += tierInterest
+    from = to
+  }
+
+  return { interest, breakdown }
+}
+
+/**
+ * 活期记录当前计息周期的起始日（上一个结算日）
+ */
+function getCycleStart(record: MonetaryBankInterest): Date {
+  const settlementDate = new Date(record.settlementDate)
+  switch (record.cycle) {
+    case 'week':
+      return addDays(settlementDate, -7)
+    case 'month':
+      return addMonths(settlementDate, -1, record.anchorDay)
+    default:
+      return addDays(settlementDate, -1)
+  }
+}
+
+/**
+ * 按日计提活期利息（持有各用户的资金锁）
+ * 对每条活期记录按日终余额累计从上次计提日到 day 之间每天的利息，日利息 = 周期利息 × 每年周期数 / 365；
+ * 配置了阶梯利率时按用户活期总余额计算后按金额分摊。旧记录没有计提日期，从当前周期起始日开始计提
+ */
+async function accrueDemandInterest(ctx: Context, config: Config, day: Date) {
+  const records = await ctx.database.get('monetary_bank_int', { type: 'demand' })
+  const groups: Record<string, { uid: number; currency: string }> = {}
+  for (const record of records) {
+    groups[`${record.uid}|${record.currency}`] = { uid: record.uid, currency: record.currency }
+  }
+
+  const tiers = config.demandInterest?.tiers || []
+  const tierModel = config.demandInterest?.model || 'compound'
+  const toAmountUnits = (value: number) => BigInt(Math.round(value * 10 ** MAX_PRECISION))
+
+  for (const { uid, currency } of Object.values(groups)) {
+    try {
+      await withUserLock([{ uid, currency }], async () => {
+        // 加锁后重新读取：分组之后记录可能已被取款修改或删除
+        const all = await ctx.database.get('monetary_bank_int', { uid, currency, type: 'demand' })
+        const balanceAmount = normalizeAmount(all.reduce((sum, r) => sum + r.amount, 0))
+        const balance = toAmountUnits(balanceAmount)
+        const tierUnits = tiers.length && balance > 0n
+          ? calculateInterestUnits(balanceAmount, 0, tiers, getRateDivisor(tierModel, all[0].cycle))
+          : 0n
+
+        for (const record of all) {
+          const from = record.accruedAt ? startOfDay(new Date(record.accruedAt)) : getCycleStart(record)
+          const days = Math.round((day.getTime() - from.getTime()) / (24 * 60 * 60 * 1000))
+          if (days <= 0) continue
+
+          const cycleUnits = tiers.length
+            ? (balance > 0n ? tierUnits * toAmountUnits(record.amount) / balance : 0n)
+            : calculateInterestUnits(record.amount, record.rate, [], getRateDivisor(record.interestModel, record.cycle))
+          const dailyUnits = cycleUnits * BigInt(CYCLES_PER_YEAR[record.cycle] || 365) / 365n
+          const accrued = BigInt(record.accruedInterest || '0') + dailyUnits * BigInt(days)
+
+          await ctx.database.set('monetary_bank_int', { id: record.id }, {
+            accruedInterest: String(accrued),
+            accruedAt: day
+          })
+        }
+      })
+    } catch (error) {
+      logger.error(`计提活期利息失败 uid=${uid}, currency=${currency}:`, error)
+    }
+  }
+}
+
+/**
+ * 查询用户某种货币下已计提、尚未发放的活期利息（按货币精度向下取整）
+ */
+async function getAccruedInterest(ctx: Context, config: Config, uid: number, currency: string): Promise<number> {
+  const records = await ctx.database.get('monetary_bank_int', { uid, currency, type: 'demand' })
+  const units = records.reduce((sum, r) => sum + BigInt(r.accruedInterest || '0'), 0n)
+  const { digits } = getPrecisionSettings(config, currency)
+  return roundInterest(units, undefined, { digits, rounding: 'floor' }).interest
+}
+
+/**
+ * 结算某位用户某种货币下到期的活期利息（持有该用户的资金锁）
+ * 发放到期记录已计提的利息（加上结转的零头后取整），并清零计提金额
+ * 金库未能足额支付的利息保留在计提金额中，之后的结算继续发放
+ * 发放后金额为 0 且没有欠付利息的记录（已全部取出、仅等待发放利息）会被删除
+ * 利率变更策略为 follow 时，记录在本次结算后改用当前配置的利率、周期与计息模式，从下个周期起生效
+ */
+async function settleDemandInterest(ctx: Context, config: Config, targets: MonetaryBankInterest[], interestRatio: number = 1) {
+  const { uid, currency } = targets[0]
+  try {
+    await withUserLock([{ uid, currency }], async () => {
+      // 加锁后重新读取：排队期间记录可能已被取款修改、删除，或已被另一次结算处理
+      const all = await ctx.database.get('monetary_bank_int', { uid, currency, type: 'demand' })
+      const expected = new Map(targets.map(r => [r.id, new Date(r.settlementDate).getTime()]))
+      const due = all.filter(r => expected.get(r.id) === new Date(r.settlementDate).getTime())
+      if (due.length === 0) return
+
+      const settings = getPrecisionSettings(config, currency)
+      const follow = (config.demandInterest?.ratePolicy || 'follow') === 'follow'
+      for (const record of due) {
+        const { interest: dueInterest, carry } = roundInterest(BigInt(record.accruedInterest || '0'), record.interestCarry, settings)
+        // 单利模式利息转入现金，本金不变；其他模式利息计入本金（按本周期的计息模式）
+        const payout = record.interestModel === 'simple'
+        const next = follow
+          ? { rate: getDemandRate(config, currency), cycle: config.demandInterest?.cycle || 'day', interestModel: config.demandInterest?.model || 'compound' }
+          : { rate: record.rate, cycle: record.cycle, interestModel: record.interestModel }
+        const nextSettlement = calculateNextSettlementDate(next.cycle, false, record.settlementDate, record.anchorDay)
+
+        // 利息由金库支付（金库余额不足时按 treasury.mode 处理），未支付的部分留在计提金额中
+        const { interest, newAmount } = await withRollback(async (rollback) => {
+          const interest = await payInterestFromTreasury(ctx, config, uid, currency, dueInterest, interestRatio, rollback)
+          const unpaid = getUnpaidInterestUnits(dueInterest, interest, settings.digits)
+          const newAmount = payout ? record.amount : normalizeAmount(record.amount + interest)
+          if (payout && interest > 0) {
+            await changeCash(ctx, uid, currency, interest, rollback)
+          }
+          if (newAmount > 0 || unpaid > 0n) {
+            await ctx.database.set('monetary_bank_int', { id: record.id }, {
+              ...next,
+              amount: newAmount,
+              settlementDate: nextSettlement,
+              interestCarry: carry,
+              accruedInterest: String(unpaid)
+            })
+          } else {
+            await ctx.database.remove('monetary_bank_int', { id: record.id })
+          }
+          return { interest, newAmount }
+        })
+        if (interest > 0) {
+          await recordTransaction(ctx, { uid, currency, type: 'interest', amount: interest, recordId: record.id, note: payout ? '活期利息（转入现金）' : '活期利息' })
+        }
+
+        logInfo(`活期利息结算: uid=${uid}, 本金=${record.amount}, 利息=${interest}, 新本金=${newAmount}`)
+        if (next.rate !== record.rate || next.cycle !== record.cycle || next.interestModel !== (record.interestModel || 'compound')) {
+          logInfo(`活期记录 id=${record.id} 改用新利率: ${describeRate(next.rate, next.interestModel, next.cycle)}`)
+        }
+      }
+    })
+  } catch (error) {
+    logger.error(`结算活期利息失败 uid=${uid}, currency=${currency}:`, error)
+  }
+}
+
+/**
+ * 结算单条定期利息记录（持有该用户的资金锁）
+ */
+async function settleFixedInterest(ctx: Context, config: Config, target: MonetaryBankInterest, interestRatio: number = 1) {
+  try {
+    await withUserLock([{ uid: target.uid, currency: target.currency }], async () => {
+      // 加锁后重新读取记录：排队期间记录可能已被取款修改、删除，或已被另一次结算处理
+      const [record] = await ctx.database.get('monetary_bank_int', { id: target.id })
+      if (!record) return
+      if (new Date(record.settlementDate).getTime() !== new Date(target.settlementDate).getTime()) return
+
+      // 精确计算利息（方案配置了阶梯利率时按阶梯计算），加上结转的零头后按货币精度取整
+      const plan = getFixedPlans(config, record.currency).find(p => p.name === record.planName)
+      const settings = getPrecisionSettings(config, record.currency)
+      const { interest: dueInterest, carry: remainder } = roundInterest(
+        calculateInterestUnits(record.amount, record.rate, plan?.tiers, getRateDivisor(record.interestModel, record.cycle)),
+        record.interestCarry,
+        settings
+      )
+      // 利息由金库支付（金库余额不足时按 treasury.mode 处理），后续步骤失败时一并退回金库
+      await withRollback(async (treasuryRollback) => {
+        const interest = await payInterestFromTreasury(ctx, config, record.uid, record.currency, dueInterest, interestRatio, treasuryRollback)
+        // 未支付的部分计入结转零头，下个周期随利息一起发放
+        const unpaid = getUnpaidInterestUnits(dueInterest, interest, settings.digits)
+        const carry = String(BigInt(remainder) + unpaid)
+
+        // 单利模式：利息始终转入现金，本金不变
+        const cashPayout = record.interestModel === 'simple'
+
+        // 定期：未到到期日时仅结算本周期利息（旧记录没有到期日，视结算日为到期日）
+        const maturityDate = new Date(record.maturityDate || record.settlementDate)
+        if (new Date(record.settlementDate) < maturityDate) {
+          const nextSettlement = calculateNextSettlementDate(record.cycle, false, record.settlementDate, record.anchorDay)
+          // 累计本存期已发放的利息，提前支取时扣回
+          const earnedInterest = normalizeAmount((record.earnedInterest || 0) + interest)
+
+          if (cashPayout) {
+            // 利息转入现金，本金不变
+            await withRollback(async (rollback) => {
+              if (interest > 0) {
+                await changeCash(ctx, record.uid, record.currency, interest, rollback)
+              }
+              await ctx.database.set('monetary_bank_int', { id: record.id }, { settlementDate: nextSettlement, interestCarry: carry, earnedInterest })
+            })
+          } else if (record.interimInterest === 'payout') {
+            // 利息转入活期，本金不变
+            await withRollback(async (rollback) => {
+              if (interest > 0) {
+                await createDemandRecord(ctx, config, record.uid, record.currency, interest, rollback, record.settlementDate)
+              }
+              await ctx.database.set('monetary_bank_int', { id: record.id }, { settlementDate: nextSettlement, interestCarry: carry, earnedInterest })
+            })
+          } else {
+            // 利息计入本金
+            await ctx.database.set('monetary_bank_int', { id: record.id }, {
+              amount: normalizeAmount(record.amount + interest),
+              settlementDate: nextSettlement,
+              interestCarry: carry,
+              earnedInterest
+            })
+          }
+          if (interest > 0) {
+            await recordTransaction(ctx, {
+              uid: record.uid,
+              currency: record.currency,
+              type: 'interest',
+              amount: interest,
+              recordId: record.id,
+              note: cashPayout
+                ? '定期存期内利息（转入现金）'
+                : record.interimInterest === 'payout' ? '定期存期内利息（转入活期）' : '定期存期内利息（计入本金）'
+            })
+          }
+
+          logInfo(`定期周期计息: uid=${record.uid}, 本金=${record.amount}, 利息=${interest}, 方式=${cashPayout ? 'cash' : record.interimInterest || 'accrue'}, 到期日=${maturityDate.toISOString()}`)
+        } else if (record.extendRequested && !record.pledged && record.nextRate !== undefined && record.nextCycle) {
+          // 申请了延期，使用新方案继续（存期、存期内利息方式与计息模式按新方案当前配置，旧记录按一个周期）
+          const nextPlan = getFixedPlans(config, record.currency).find(p => p.name === record.nextPlanName)
+          const newAmount = cashPayout ? record.amount : normalizeAmount(record.amount + interest)
+          const nextSettlement = calculateNextSettlementDate(record.nextCycle, false, record.settlementDate, record.anchorDay)
+      
+          await withRollback(async (rollback) => {
+            if (cashPayout && interest > 0) {
+              await changeCash(ctx, record.uid, record.currency, interest, rollback)
+            }
+            await ctx.database.set('monetary_bank_int', { id: record.id }, {
+              amount: newAmount,
+              interestCarry: carry,
+              rate: record.nextRate,
+              cycle: record.nextCycle,
+              settlementDate: nextSettlement,
+              maturityDate: calculateMaturityDate(record.nextCycle, nextPlan?.term ?? 1, false, record.settlementDate, record.anchorDay),
+              planName: record.nextPlanName ?? record.planName,
+              interimInterest: nextPlan?.interimInterest || 'accrue',
+              interestModel: nextPlan?.model || 'compound',
+              extendRequested: false,
+              earnedInterest: 0,
+              nextRate: null,
+              nextCycle: null,
+              nextPlanName: null
+            })
+          })
+          if (interest > 0) {
+            await recordTransaction(ctx, { uid: record.uid, currency: record.currency, type: 'interest', amount: interest, recordId: record.id, note: cashPayout ? '定期利息（转入现金）' : '定期利息' })
+          }
+          await recordTransaction(ctx, {
+            uid: record.uid,
+            currency: record.currency,
+            type: 'fixed_extend',
+            amount: newAmount,
+            recordId: record.id,
+            note: `续存 ${record.nextRate}% / ${record.nextCycle}`
+          })
+      
+          logInfo(`定期延期结算: uid=${record.uid}, 本金=${record.amount}, 利息=${interest}, 新本金=${newAmount}, 新利率=${record.nextRate}%, 新周期=${record.nextCycle}`)
+        } else {
+          // 未延期，本金+利息转为活期（单利模式下利息转入现金）；已质押的定期先偿还质押贷款，剩余部分再转为活期
+          // 欠付利息随之转入活期记录，即使本金已全部用于还款也保留一条金额为 0 的活期记录等待补发
+          // 关闭活期利息（demandInterest.enabled 为 false）时不创建活期记录
+          // 先创建活期记录再删除定期记录，任一步失败则整体回滚
+          const totalAmount = cashPayout ? record.amount : normalizeAmount(record.amount + interest)
+          const [pledgeLoan] = record.pledged
+            ? await ctx.database.get('monetary_bank_loan', { collateralId: record.id, status: { $ne: 'repaid' } })
+            : []
+          const repayAmount = pledgeLoan ? Math.min(totalAmount, getLoanOwed(pledgeLoan)) : 0
+          const demandAmount = normalizeAmount(totalAmount - repayAmount)
+          const demandRecord = await withRollback(async (rollback) => {
+            if (cashPayout && interest > 0) {
+              await changeCash(ctx, record.uid, record.currency, interest, rollback)
+            }
+            if (repayAmount > 0) {
+              await applyLoanPayment(ctx, pledgeLoan, repayAmount, rollback)
+            }
+            let demandRecord: MonetaryBankInterest | null = null
+            if ((demandAmount > 0 || unpaid > 0n) && config.demandInterest?.enabled !== false) {
+              demandRecord = await createDemandRecord(ctx, config, record.uid, record.currency, demandAmount, rollback, record.settlementDate)
+              // 利息零头随本金结转到活期记录，欠付利息转为活期记录的计提金额
+              await ctx.database.set('monetary_bank_int', { id: demandRecord.id }, { interestCarry: remainder, accruedInterest: String(unpaid) })
+            }
+            await ctx.database.remove('monetary_bank_int', { id: record.id })
+            return demandRecord
+          })
+
+          if (interest > 0) {
+            await recordTransaction(ctx, { uid: record.uid, currency: record.currency, type: 'interest', amount: interest, recordId: record.id, note: cashPayout ? '定期利息（转入现金）' : '定期利息' })
+          }
+          if (repayAmount > 0) {
+            await recordTransaction(ctx, { uid: record.uid, currency: record.currency, type: 'loan_repay', amount: repayAmount, note: `贷款 #${pledgeLoan.id} 以到期定期 #${record.id} 偿还` })
+          }
+          if (demandRecord && demandAmount > 0) {
+            await recordTransaction(ctx, {
+              uid: record.uid,
+              currency: record.currency,
+              type: 'fixed_mature',
+              amount: demandAmount,
+              recordId: demandRecord.id,
+              note: `定期 #${record.id} 到期转活期`
+            })
+          }
+      
+          logInfo(`定期到期结算: uid=${record.uid}, 本金=${record.amount}, 利息=${interest}, 偿还质押贷款=${repayAmount}, 转活期=${demandAmount}`)
+        }
+      })
+    })
+  } catch (error) {
+    logger.error(`结算利息失败 id=${target.id}:`, error)
+  }
+}
+
+/**
+ * 计算用户银行总余额（通过 int 表聚合）
+ */
+async function getBankBalance(ctx: Context, uid: number, currency: string): Promise<{ total: number; demand: number; fixed: number }> {
+  const records = await ctx.database.get('monetary_bank_int', { uid, currency })
+  
+  let demand = 0
+  let fixed = 0
+  
+  for (const record of records) {
+    if (record.type === 'demand') {
+      demand += record.amount
+    } else {
+      fixed += record.amount
+    }
+  }
+  
+  demand = normalizeAmount(demand)
+  fixed = normalizeAmount(fixed)
+  return { total: normalizeAmount(demand + fixed), demand, fixed }
+}
+
+/**
+ * 合并活期记录（仅对 type='demand' 有效）
+ * 规则：按 uid + currency + settlementDate(0点) + rate + cycle + 计息模式分组，若同组中有多条记录则合并为一条
+ * 这样可以避免大量小笔活期记录造成查询/结算性能问题
+ */
+async function mergeDemandRecords(ctx: Context) {
+  try {
+    const records = await ctx.database
+      .select('monetary_bank_int')
+      .where({ type: 'demand' })
+      .execute()
+
+    const groups: Record<string, { records: MonetaryBankInterest[]; uid: number; currency: string; settlementDate: Date; rate: number; cycle: 'day' | 'week' | 'month'; interestModel?: InterestModel }> = {}
+
+    for (const r of records) {
+      // 规范化结算日期到当天0点以便对比
+      const sd = startOfDay(new Date(r.settlementDate))
+      const key = `${r.uid}|${r.currency}|${sd.getTime()}|${r.rate}|${r.cycle}|${r.interestModel || 'compound'}`
+
+      if (!groups[key]) {
+        groups[key] = { records: [], uid: r.uid, currency: r.currency, settlementDate: sd, rate: r.rate, cycle: r.cycle, interestModel: r.interestModel }
+      }
+      groups[key].records.push(r)
+    }
+
+    for (const key of Object.keys(groups)) {
+      const g = groups[key]
+      if (g.records.length <= 1) continue
+      // 持有用户资金锁，并在锁内重新读取记录：分组之后记录可能已被取款修改或删除
+      try {
+        await withUserLock([{ uid: g.uid, currency: g.currency }], async () => {
+          const current = await ctx.database.get('monetary_bank_int', { id: g.records.map(r => r.id), type: 'demand' })
+          if (current.length <= 1) return
+          const ids = current.map(r => r.id)
+          const total = normalizeAmount(current.reduce((sum, r) => sum + Number(r.amount || 0), 0))
+          const carry = current.reduce((sum, r) => sum + BigInt(r.interestCarry || '0'), 0n)
+          const accrued = current.reduce((sum, r) => sum + BigInt(r.accruedInterest || '0'), 0n)
+
+          // 先创建合并后的单条记录，再删除原有多条记录，任一步失败则整体回滚
+          const merged = await withRollback(async (rollback) => {
+            const merged = await ctx.database.create('monetary_bank_int', {
+              uid: g.uid,
+              currency: g.currency,
+              amount: total,
+              type: 'demand',
+              rate: g.rate,
+              cycle: g.cycle,
+              interestModel: g.interestModel,
+              settlementDate: g.settlementDate,
+              extendRequested: false,
+              interestCarry: String(carry),
+              accruedInterest: String(accrued),
+              // 各记录计提日期不一致时取最晚的，避免重复计提
+              accruedAt: current.reduce<Date | undefined>((latest, r) => r.accruedAt && (!latest || r.accruedAt > latest) ? r.accruedAt : latest, undefined)
+            })
+            rollback.add(`创建合并活期记录 id=${merged.id}`, () => ctx.database.remove('monetary_bank_int', { id: merged.id }))
+
+            for (const record of current) {
+              await ctx.database.remove('monetary_bank_int', { id: record.id })
+              rollback.add(`删除活期记录 id=${record.id}`, () => ctx.database.create('monetary_bank_int', { ...record }))
+            }
+            return merged
+          })
+          await recordTransaction(ctx, {
+            uid: g.uid,
+            currency: g.currency,
+            type: 'merge',
+            amount: total,
+            recordId: merged.id,
+            note: `合并 ${ids.length} 条活期记录（#${ids.join(', #')}）`
+          })
+          logInfo(`合并活期记录: uid=${g.uid}, currency=${g.currency}, settlementDate=${g.settlementDate.toISOString()}, 合并后金额=${total}`)
+        })
+      } catch (e) {
+        logger.error(`合并活期记录失败 uid=${g.uid}, currency=${g.currency}，已回滚：`, e)
+      }
+    }
+  } catch (err) {
+    logger.error('合并活期记录失败：', err)
+  }
+}
+
+/**
+ * 记录利率配置变更
+ * 将活期与各定期方案的当前配置（利率、周期、计息模式、阶梯）与该项最近一条历史比较，
+ * 不一致（或尚无历史）时写入一条新的历史记录；已从配置中删除的定期方案不做记录
+ * 货币单独配置了活期利率或定期方案时，按货币分别记录（currency 为空的记录表示全局配置）
+ */
+async function recordRateChanges(ctx: Context, config: Config) {
+  const describeTiers = (tiers?: InterestTier[]) => JSON.stringify((tiers || []).map(t => ({ upTo: t.upTo || 0, rate: t.rate })))
+  const demandEntry = (rate: number, currency?: string): Omit<MonetaryBankRate, 'id' | 'effectiveAt'> => ({
+    kind: 'demand',
+    currency,
+    rate,
+    cycle: config.demandInterest?.cycle || 'day',
+    model: config.demandInterest?.model || 'compound',
+    tiers: describeTiers(config.demandInterest?.tiers)
+  })
+  const planEntries = (plans: FixedPlanConfig[], currency?: string) => plans.map((plan): Omit<MonetaryBankRate, 'id' | 'effectiveAt'> => ({
+    kind: 'fixed',
+    currency,
+    planName: plan.name,
+    rate: plan.rate,
+    cycle: plan.cycle,
+    model: plan.model || 'compound',
+    tiers: describeTiers(plan.tiers)
+  }))
+
+  const current = [
+    demandEntry(config.demandInterest?.rate ?? 0.25),
+    ...planEntries(config.fixedInterest || [])
+  ]
+  for (const entry of config.currencies || []) {
+    if (typeof entry.demandRate === 'number') current.push(demandEntry(entry.demandRate, entry.currency))
+    if (entry.fixedInterest?.length) current.push(...planEntries(entry.fixedInterest, entry.currency))
+  }
+
+  try {
+    const history = await ctx.database
+      .select('monetary_bank_rate')
+      .orderBy('id', 'desc')
+      .execute()
+
+    for (const entry of current) {
+      const last = history.find(h => h.kind === entry.kind && (h.currency || undefined) === entry.currency && (entry.kind === 'demand' || h.planName === entry.planName))
+      if (last && last.rate === entry.rate && last.cycle === entry.cycle && last.model === entry.model && last.tiers === entry.tiers) continue
+
+      await ctx.database.create('monetary_bank_rate', { ...entry, effectiveAt: new Date() })
+      const name = (entry.currency ? `${entry.currency} ` : '') + (entry.kind === 'demand' ? '活期' : `定期方案 ${entry.planName}`)
+      logInfo(last
+        ? `${name}利率变更: ${describeRate(last.rate, last.model, last.cycle)} → ${describeRate(entry.rate, entry.model, entry.cycle)}`
+        : `记录${name}初始利率: ${describeRate(entry.rate, entry.model, entry.cycle)}`)
+    }
+  } catch (error) {
+    logger.warn('记录利率变更失败:', error)
+  }
+}
+
+/**
+ * 分页查询利率历史（按生效时间倒序）
+ * @returns 当前页记录与总条数
+ */
+async function queryRateHistory(ctx: Context, page: number): Promise<{ records: MonetaryBankRate[]; total: number }> {
+  const total = await ctx.database.eval('monetary_bank_rate', row => $.count(row.id), {})
+  const records = await ctx.database
+    .select('monetary_bank_rate')
+    .orderBy('effectiveAt', 'desc')
+    .orderBy('id', 'desc')
+    .limit(HISTORY_PAGE_SIZE)
+    .offset((page - 1) * HISTORY_PAGE_SIZE)
+    .execute()
+
+  return { records, total }
+}
+
+/**
+ * 查询用户某种货币的累计净存入（存款流水减取款流水，最低为 0），作为贷款额度的依据
+ * 借款转入现金后可再存入银行：有未结清贷款（含定期质押贷款）时，最早一笔借款放款之后的存款中
+ * 不超过未还本金的部分视为借来的资金，不计入净存入，避免"借款-存入-再借款"循环抬高额度
+ */
+async function getNetDeposits(ctx: Context, uid: number, currency: string): Promise<number> {
+  const sum = (type: TransactionType, query: Query.Expr<MonetaryBankTransaction> = {}) =>
+    ctx.database.eval('monetary_bank_tx', row => $.sum(row.amount), { ...query, uid, currency, type })
+  const deposits = await sum('deposit')
+  const withdrawals = await sum('withdraw')
+
+  let borrowed = 0
+  const loans = await ctx.database.get('monetary_bank_loan', { uid, currency, status: { $ne: 'repaid' } })
+  if (loans.length) {
+    // 放款流水在借款人的资金锁内写入，按流水ID区分放款前后的存款（放款流水缺失时按借款时间）
+    const since = new Date(Math.min(...loans.map(loan => new Date(loan.createdAt).getTime())))
+    const [disburse] = await ctx.database
+      .select('monetary_bank_tx')
+      .where({ uid, currency, type: 'loan_disburse', createdAt: { $gte: since } })
+      .orderBy('id', 'asc')
+      .limit(1)
+      .execute()
+    const later = await sum('deposit', disburse ? { id: { $gt: disburse.id } } : { createdAt: { $gte: since } })
+    const outstanding = normalizeAmount(loans.reduce((sum, loan) => sum + loan.outstanding, 0))
+    borrowed = Math.min(outstanding, later || 0)
+  }
+  return Math.max(0, normalizeAmount((deposits || 0) - (withdrawals || 0) - borrowed))
+}
+
+/**
+ * 计算用户在某贷款产品下的可贷额度
+ * 额度 = 累计净存入 × maxRatio%，扣除该货币下所有未结清信用贷款的本金（定期质押贷款不占用额度）；
+ * 产品设置了 maxAmount 时，该产品下的未还本金另不得超过 maxAmount
+ */
+async function getLoanQuota(ctx: Context, uid: number, currency: string, product: LoanProductConfig): Promise<{ limit: number; used: number; available: number }> {
+  const loans = (await ctx.database.get('monetary_bank_loan', { uid, currency, status: { $ne: 'repaid' } }))
+    .filter(loan => !loan.collateralId)
+  const used = normalizeAmount(loans.reduce((sum, loan) => sum + loan.outstanding, 0))
+  const usedByProduct = normalizeAmount(loans.filter(loan => loan.productName === product.name).reduce((sum, loan) => sum + loan.outstanding, 0))
+
+  const limit = normalizeAmount(await getNetDeposits(ctx, uid, currency) * (product.maxRatio ?? 50) / 100)
+  let available = limit - used
+  if (product.maxAmount > 0) available = Math.min(available, product.maxAmount - usedByProduct)
+  return { limit, used, available: Math.max(0, Math.floor(normalizeAmount(available))) }
+}
+
+/**
+ * 计算定期记录可质押借款的最高金额（定期本金 × 质押率，向下取整）
+ */
+function getPledgeLimit(config: Config, record: MonetaryBankInterest): number {
+  return Math.floor(normalizeAmount(record.amount * (config.loan?.pledgeLtv ?? 70) / 100))
+}
+
+/**
+ * 贷款当前应还总额（未还本金 + 已计提利息）
+ */
+function getLoanOwed(loan: MonetaryBankLoan): number {
+  return normalizeAmount(loan.outstanding + loan.interest)
+}
+
+/**
+ * 偿还贷款（可回滚）：先还利息、再还本金，还清后标记为已结清，定期质押贷款结清时解除定期的质押
+ * 偿还的利息计入银行金库；调用方需持有借款人的资金锁，并保证 amount 不超过应还总额
+ */
+async function applyLoanPayment(ctx: Context, loan: MonetaryBankLoan, amount: number, rollback: Rollback): Promise<{ interestPaid: number; principalPaid: number; loan: MonetaryBankLoan }> {
+  const interestPaid = Math.min(amount, loan.interest)
+  const principalPaid = Math.min(normalizeAmount(amount - interestPaid), loan.outstanding)
+  const interest = normalizeAmount(loan.interest - interestPaid)
+  const outstanding = normalizeAmount(loan.outstanding - principalPaid)
+  const repaid = interest <= 0 && outstanding <= 0
+
+  const update = {
+    interest,
+    outstanding,
+    status: repaid ? 'repaid' as const : loan.status,
+    repaidAt: repaid ? new Date() : null
+  }
+  await ctx.database.set('monetary_bank_loan', { id: loan.id }, update)
+  rollback.add(`贷款 id=${loan.id} 还款 ${amount}`, () => ctx.database.set('monetary_bank_loan', { id: loan.id }, {
+    interest: loan.interest,
+    outstanding: loan.outstanding,
+    status: loan.status,
+    repaidAt: loan.repaidAt ?? null
+  }))
+
+  if (repaid && loan.collateralId) {
+    await ctx.database.set('monetary_bank_int', { id: loan.collateralId }, { pledged: false })
+    rollback.add(`解除定期 id=${loan.collateralId} 的质押`, () => ctx.database.set('monetary_bank_int', { id: loan.collateralId }, { pledged: true }))
+  }
+  if (interestPaid > 0) {
+    await changeTreasury(ctx, loan.currency, interestPaid, rollback, { type: 'loan_interest', uid: loan.uid, note: `贷款 #${loan.id}` })
+  }
+  return { interestPaid, principalPaid, loan: { ...loan, ...update } }
+}
+
+/**
+ * 按日计提贷款利息（持有各借款人的资金锁）
+ * 从上次计提日逐日计提到 day：日利息 = 未还本金 × 年利率 / 365，到期日之后的每一天另加收逾期罚息
+ */
+async function accrueLoanInterest(ctx: Context, config: Config, day: Date) {
+  const loans = await ctx.database.get('monetary_bank_loan', { status: { $ne: 'repaid' }, accruedAt: { $lt: day } })
+
+  for (const target of loans) {
+    try {
+      await withUserLock([{ uid: target.uid, currency: target.currency }], async () => {
+        // 加锁后重新读取：排队期间贷款可能已被偿还
+        const [loan] = await ctx.database.get('monetary_bank_loan', { id: target.id })
+        if (!loan || loan.status === 'repaid') return
+
+        const settings = getPrecisionSettings(config, loan.currency)
+        const dueDate = new Date(loan.dueDate)
+        let accruedAt = startOfDay(new Date(loan.accruedAt))
+        let interest = loan.interest
+        let carry = loan.interestCarry
+        while (accruedAt < day) {
+          accruedAt = addDays(accruedAt, 1)
+          const rate = loan.rate + (accruedAt > dueDate ? loan.overdueRate : 0)
+          const rounded = roundInterest(calculateInterestUnits(loan.outstanding, rate, [], 365), carry, settings)
+          interest = normalizeAmount(interest + rounded.interest)
+          carry = rounded.carry
+        }
+
+        await ctx.database.set('monetary_bank_loan', { id: loan.id }, { interest, interestCarry: carry, accruedAt })
+        logInfo(`贷款计息: id=${loan.id}, uid=${loan.uid}, 未还本金=${loan.outstanding}, 累计利息=${interest}`)
+      })
+    } catch (error) {
+      logger.error(`计提贷款利息失败 id=${target.id}:`, error)
+    }
+  }
+}
+
+/**
+ * 处理逾期贷款（持有各借款人的资金锁）
+ * 到期日早于 day 仍未结清的贷款标记为逾期，并从借款人同币种活期中扣款偿还（活期不足时扣完为止，次日继续）
+ */
+async function collectOverdueLoans(ctx: Context, day: Date) {
+  const loans = await ctx.database.get('monetary_bank_loan', { status: { $ne: 'repaid' }, dueDate: { $lt: day } })
+
+  for (const target of loans) {
+    try {
+      await withUserLock([{ uid: target.uid, currency: target.currency }], async () => {
+        const [loan] = await ctx.database.get('monetary_bank_loan', { id: target.id })
+        if (!loan || loan.status === 'repaid') return
+
+        if (loan.status !== 'overdue') {
+          await ctx.database.set('monetary_bank_loan', { id: loan.id }, { status: 'overdue' })
+          loan.status = 'overdue'
+          logInfo(`贷款逾期: id=${loan.id}, uid=${loan.uid}, 应还=${getLoanOwed(loan)}`)
+        }
+
+        const { demand } = await getBankBalance(ctx, loan.uid, loan.currency)
+        const amount = Math.min(demand, getLoanOwed(loan))
+        if (amount <= 0) return
+
+        await withRollback(async (rollback) => {
+          await deductDemandRecords(ctx, loan.uid, loan.currency, amount, rollback)
+          return await applyLoanPayment(ctx, loan, amount, rollback)
+        })
+        await recordTransaction(ctx, { uid: loan.uid, currency: loan.currency, type: 'loan_repay', amount, note: `贷款 #${loan.id} 逾期自动扣款（活期）` })
+        logInfo(`逾期贷款自动扣款: id=${loan.id}, uid=${loan.uid}, 扣款=${amount}`)
+      })
+    } catch (error) {
+      logger.error(`处理逾期贷款失败 id=${target.id}:`, error)
+    }
+  }
+}
+
+/**
+ * 计算透支账户的额度：管理员设置了额度时直接使用，否则按近 averageDays 天的日均活期余额 × ratio% 计算
+ * 没有快照的日期按余额 0 计入日均
+ */
+async function getOverdraftLimit(ctx: Context, config: Config, account: MonetaryBankOverdraft): Promise<number> {
+  if (typeof account.limit === 'number') return account.limit
+
+  const ratio = config.overdraft?.ratio ?? 50
+  if (!ratio) return 0
+  const days = config.overdraft?.averageDays || 30
+  const total = await ctx.database.eval('monetary_bank_snapshot', row => $.sum(row.demand), {
+    uid: account.uid,
+    currency: account.currency,
+    day: { $gt: addDays(startOfDay(), -days) }
+  })
+  const limit = Math.floor(normalizeAmount((total || 0) / days * ratio / 100))
+  const maxLimit = config.overdraft?.maxLimit || 0
+  return maxLimit > 0 ? Math.min(limit, maxLimit) : limit
+}
+
+/**
+ * 查询用户的透支状态（未开通透支时额度为 0，但仍返回尚未还清的透支）
+ */
+async function getOverdraftStatus(ctx: Context, config: Config, uid: number, currency: string): Promise<OverdraftStatus> {
+  const [account] = await ctx.database.get('monetary_bank_overdraft', { uid, currency })
+  const used = account?.used ?? 0
+  const interest = account?.interest ?? 0
+  const owed = normalizeAmount(used + interest)
+  const enabled = !!(config.overdraft?.enabled && account?.enabled)
+  const limit = enabled ? await getOverdraftLimit(ctx, config, account) : 0
+
+  return { enabled, limit, used, interest, owed, available: Math.max(0, Math.floor(normalizeAmount(limit - owed))) }
+}
+
+/**
+ * 修改用户的透支设置（开通/关闭、管理员额度），账户不存在时创建
+ * @param options.limit 管理员额度，null 表示改回按日均余额规则计算
+ */
+async function updateOverdraftAccount(ctx: Context, uid: number, currency: string, options: { enabled?: boolean; limit?: number | null }) {
+  const [account] = await ctx.database.get('monetary_bank_overdraft', { uid, currency })
+  const update: Partial<MonetaryBankOverdraft> = { updatedAt: new Date() }
+  if (options.enabled !== undefined) update.enabled = options.enabled
+  if (options.limit !== undefined) update.limit = options.limit
+
+  if (account) {
+    await ctx.database.set('monetary_bank_overdraft', { uid, currency }, update)
+  } else {
+    await ctx.database.create('monetary_bank_overdraft', {
+      uid,
+      currency,
+      enabled: false,
+      limit: null,
+      used: 0,
+      interest: 0,
+      accruedAt: startOfDay(),
+      ...update
+    })
+  }
+}
+
+/**
+ * 透支（可回滚）：增加已透支本金
+ * 调用方需持有用户资金锁并已检查可透支额度；此前没有透支本金时从当天开始计息
+ */
+async function drawOverdraft(ctx: Context, uid: number, currency: string, amount: number, rollback: Rollback) {
+  const [account] = await ctx.database.get('monetary_bank_overdraft', { uid, currency })
+  if (!account) throw new BankOperationError('未开通透支')
+
+  const update: Partial<MonetaryBankOverdraft> = { used: normalizeAmount(account.used + amount), updatedAt: new Date() }
+  if (account.used <= 0) update.accruedAt = startOfDay()
+  await ctx.database.set('monetary_bank_overdraft', { uid, currency }, update)
+  rollback.add(`透支 uid=${uid}, currency=${currency}, amount=${amount}`, () => ctx.database.set('monetary_bank_overdraft', { uid, currency }, {
+    used: account.used,
+    accruedAt: account.accruedAt
+  }))
+}
+
+/**
+ * 偿还透支（可回滚）：先还利息、再还本金，偿还的利息计入银行金库
+ * 调用方需持有用户资金锁，并保证 amount 不超过应还总额
+ */
+async function repayOverdraft(ctx: Context, account: MonetaryBankOverdraft, amount: number, rollback: Rollback): Promise<{ interestPaid: number; principalPaid: number }> {
+  const interestPaid = Math.min(amount, account.interest)
+  const principalPaid = Math.min(normalizeAmount(amount - interestPaid), account.used)
+  const { uid, currency } = account
+
+  await ctx.database.set('monetary_bank_overdraft', { uid, currency }, {
+    interest: normalizeAmount(account.interest - interestPaid),
+    used: normalizeAmount(account.used - principalPaid),
+    updatedAt: new Date()
+  })
+  rollback.add(`偿还透支 uid=${uid}, currency=${currency}, amount=${amount}`, () => ctx.database.set('monetary_bank_overdraft', { uid, currency }, {
+    interest: account.interest,
+    used: account.used
+  }))
+
+  if (interestPaid > 0) {
+    await changeTreasury(ctx, currency, interestPaid, rollback, { type: 'overdraft_interest', uid })
+  }
+  return { interestPaid, principalPaid }
+}
+
+/**
+ * 记录各用户的日终活期余额与透支本金快照，并清理超出透支与信用分统计天数的旧快照
+ * 已开通透支或仍有透支但没有活期的用户，活期记为 0
+ */
+async function snapshotDemandBalances(ctx: Context, config: Config, day: Date) {
+  const balances: Record<string, MonetaryBankSnapshot> = {}
+  const accounts = await ctx.database.get('monetary_bank_overdraft', { $or: [{ enabled: true }, { used: { $gt: 0 } }] })
+  for (const { uid, currency, used } of accounts) {
+    balances[`${uid}|${currency}`] = { uid, currency, day, demand: 0, overdraft: used }
+  }
+  const records = await ctx.database.get('monetary_bank_int', { type: 'demand' })
+  for (const record of records) {
+    const key = `${record.uid}|${record.currency}`
+    if (!balances[key]) balances[key] = { uid: record.uid, currency: record.currency, day, demand: 0, overdraft: 0 }
+    balances[key].demand = normalizeAmount(balances[key].demand + record.amount)
+  }
+
+  const rows = Object.values(balances)
+  if (rows.length) await ctx.database.upsert('monetary_bank_snapshot', rows)
+  const keepDays = Math.max(config.overdraft?.averageDays || 30, config.credit?.averageDays || 30)
+  await ctx.database.remove('monetary_bank_snapshot', { day: { $lte: addDays(day, -keepDays) } })
+  logInfo(`记录活期余额快照: ${rows.length} 个账户`)
+}
+
+/**
+ * 按日计提透支利息（持有各用户的资金锁）
+ * 从上次计提日逐日计提到 day：日利息 = 已透支本金 × 透支年利率 / 365
+ */
+async function accrueOverdraftInterest(ctx: Context, config: Config, day: Date) {
+  const accounts = await ctx.database.get('monetary_bank_overdraft', { used: { $gt: 0 }, accruedAt: { $lt: day } })
+  const rate = config.overdraft?.rate ?? 18
+
+  for (const target of accounts) {
+    const { uid, currency } = target
+    try {
+      await withUserLock([{ uid, currency }], async () => {
+        // 加锁后重新读取：排队期间透支可能已被偿还
+        const [account] = await ctx.database.get('monetary_bank_overdraft', { uid, currency })
+        if (!account || account.used <= 0) return
+
+        const settings = getPrecisionSettings(config, currency)
+        let accruedAt = startOfDay(new Date(account.accruedAt))
+        let interest = account.interest
+        let carry = account.interestCarry
+        while (accruedAt < day) {
+          accruedAt = addDays(accruedAt, 1)
+          const rounded = roundInterest(calculateInterestUnits(account.used, rate, [], 365), carry, settings)
+          interest = normalizeAmount(interest + rounded.interest)
+          carry = rounded.carry
+        }
+
+        await ctx.database.set('monetary_bank_overdraft', { uid, currency }, { interest, interestCarry: carry, accruedAt, updatedAt: new Date() })
+        logInfo(`透支计息: uid=${uid}, currency=${currency}, 已透支=${account.used}, 累计利息=${interest}`)
+      })
+    } catch (error) {
+      logger.error(`计提透支利息失败 uid=${uid}, currency=${currency}:`, error)
+    }
+  }
+}
+
+/**
+ * 以活期余额自动偿还透支（持有各用户的资金锁），活期不足时扣完为止
+ */
+async function sweepOverdrafts(ctx: Context) {
+  const accounts = await ctx.database.get('monetary_bank_overdraft', { $or: [{ used: { $gt: 0 } }, { interest: { $gt: 0 } }] })
+
+  for (const target of accounts) {
+    const { uid, currency } = target
+    try {
+      await withUserLock([{ uid, currency }], async () => {
+        const [account] = await ctx.database.get('monetary_bank_overdraft', { uid, currency })
+        if (!account) return
+
+        const { demand } = await getBankBalance(ctx, uid, currency)
+        const amount = Math.min(demand, normalizeAmount(account.used + account.interest))
+        if (amount <= 0) return
+
+        const result = await withRollback(async (rollback) => {
+          await deductDemandRecords(ctx, uid, currency, amount, rollback)
+          return await repayOverdraft(ctx, account, amount, rollback)
+        })
+        await recordTransaction(ctx, { uid, currency, type: 'overdraft_repay', amount, note: `活期自动偿还透支（利息 ${result.interestPaid}，本金 ${result.principalPaid}）` })
+        logInfo(`透支自动还款: uid=${uid}, currency=${currency}, 还款=${amount}`)
+      })
+    } catch (error) {
+      logger.error(`透支自动还款失败 uid=${uid}, currency=${currency}:`, error)
+    }
+  }
+}
+
+/**
+ * 信用分的计算因素
+ */
+type CreditFactors = Omit<MonetaryBankCredit, 'uid' | 'score' | 'updatedAt'>
+
+/**
+ * 信用等级（按分数从高到低匹配）
+ */
+const CREDIT_LEVELS: Array<{ min: number; label: string }> = [
+  { min: 800, label: '极好' },
+  { min: 700, label: '优秀' },
+  { min: 600, label: '良好' },
+  { min: 500, label: '一般' },
+  { min: 0, label: '较差' }
+]
+
+/**
+ * 获取信用分对应的等级名称
+ */
+function getCreditLevel(score: number): string {
+  return CREDIT_LEVELS.find(level => score >= level.min).label
+}
+
+/**
+ * 统计用户截至 day 的信用分计算因素
+ * 日均活期余额按默认货币统计，透支天数统计所有货币；没有快照的日期按余额 0 计入日均
+ */
+async function collectCreditFactors(ctx: Context, config: Config, uid: number, day: Date): Promise<CreditFactors> {
+  const days = config.credit?.averageDays || 30
+  const currency = config.defaultCurrency || 'coin'
+
+  const [firstDeposit] = await ctx.database
+    .select('monetary_bank_tx')
+    .where({ uid, type: 'deposit' })
+    .orderBy('createdAt', 'asc')
+    .limit(1)
+    .execute()
+  const depositAge = firstDeposit
+    ? Math.max(0, Math.round((day.getTime() - startOfDay(new Date(firstDeposit.createdAt)).getTime()) / (24 * 60 * 60 * 1000)))
+    : 0
+
+  const snapshots = await ctx.database.get('monetary_bank_snapshot', { uid, day: { $gt: addDays(day, -days) } })
+  const balanceSum = snapshots.filter(snapshot => snapshot.currency === currency).reduce((sum, snapshot) => sum + snapshot.demand, 0)
+  const overdraftDays = new Set(snapshots.filter(snapshot => snapshot.overdraft > 0).map(snapshot => new Date(snapshot.day).getTime())).size
+
+  const count = (type: TransactionType) => ctx.database.eval('monetary_bank_tx', row => $.count(row.id), { uid, type })
+
+  // 到期日当天结清视为按时还款；仍处于逾期或在到期日之后才结清的贷款计为逾期
+  let loansOnTime = 0
+  let loansOverdue = 0
+  for (const loan of await ctx.database.get('monetary_bank_loan', { uid })) {
+    const deadline = addDays(startOfDay(new Date(loan.dueDate)), 1)
+    if (loan.status === 'overdue' || (loan.status === 'repaid' && new Date(loan.repaidAt) >= deadline)) {
+      loansOverdue++
+    } else if (loan.status === 'repaid') {
+      loansOnTime++
+    }
+  }
+
+  return {
+    depositAge,
+    averageBalance: Math.floor(normalizeAmount(balanceSum / days)),
+    fixedMatured: await count('fixed_mature'),
+    fixedEarly: await count('fixed_early'),
+    loansOnTime,
+    loansOverdue,
+    overdraftDays
+  }
+}
+
+/**
+ * 根据信用因素计算信用分（300-900），并返回各项加减分明细
+ * 基础分 500：存款时长（满一年 +100）、日均活期余额（按数量级，最高 +100）、定期持有到期（每笔 +10，最高 +100）、
+ * 按时还款（每笔 +15，最高 +150）加分；提前支取（每次 -10，最高 -50）、贷款逾期（每笔 -50，最高 -200）、透支天数（每天 -3，最高 -90）减分
+ */
+function calculateCreditScore(factors: CreditFactors): { score: number; items: Array<{ label: string; value: string; points: number }> } {
+  const items = [
+    { label: '存款时长', value: `${factors.depositAge} 天`, points: Math.round(Math.min(factors.depositAge, 365) / 365 * 100) },
+    { label: '日均活期余额', value: factors.averageBalance.toLocaleString(), points: Math.round(Math.min(100, Math.log10(factors.averageBalance + 1) * 25)) },
+    { label: '定期持有到期', value: `${factors.fixedMatured} 笔`, points: Math.min(factors.fixedMatured, 10) * 10 },
+    { label: '定期提前支取', value: `${factors.fixedEarly} 次`, points: -Math.min(factors.fixedEarly, 5) * 10 },
+    { label: '按时还款', value: `${factors.loansOnTime} 笔`, points: Math.min(factors.loansOnTime, 10) * 15 },
+    { label: '贷款逾期', value: `${factors.loansOverdue} 笔`, points: -Math.min(factors.loansOverdue, 4) * 50 },
+    { label: '透支天数', value: `${factors.overdraftDays} 天`, points: -Math.min(factors.overdraftDays, 30) * 3 }
+  ]
+  const score = Math.max(300, Math.min(900, 500 + items.reduce((sum, item) => sum + item.points, 0)))
+  return { score, items }
+}
+
+/**
+ * 计算并保存用户截至 day 的信用分
+ */
+async function computeCreditScore(ctx: Context, config: Config, uid: number, day: Date): Promise<MonetaryBankCredit> {
+  const factors = await collectCreditFactors(ctx, config, uid, day)
+  const credit: MonetaryBankCredit = { uid, score: calculateCreditScore(factors).score, ...factors, updatedAt: new Date() }
+  await ctx.database.upsert('monetary_bank_credit', [credit])
+  return credit
+}
+
+/**
+ * 重新计算所有用户的信用分（有存款、贷款、透支账户或已有信用分的用户）
+ */
+async function updateCreditScores(ctx: Context, config: Config, day: Date) {
+  const uids = new Set<number>()
+  for (const table of ['monetary_bank_int', 'monetary_bank_loan', 'monetary_bank_overdraft', 'monetary_bank_credit'] as const) {
+    for (const { uid } of await ctx.database.get(table, {}, ['uid'])) {
+      uids.add(uid)
+    }
+  }
+
+  for (const uid of uids) {
+    try {
+      await computeCreditScore(ctx, config, uid, day)
+    } catch (error) {
+      logger.error(`计算信用分失败 uid=${uid}:`, error)
+    }
+  }
+  logInfo(`信用分计算完成: ${uids.size} 个用户`)
+}
+
+/**
+ * 写入一条交易流水
+ * 流水仅用于追溯，写入失败只记录警告，不影响资金操作本身
+ */
+async function recordTransaction(ctx: Context, tx: Omit<MonetaryBankTransaction, 'id' | 'createdAt'>) {
+  try {
+    await ctx.database.create('monetary_bank_tx', { ...tx, createdAt: new Date() })
+  } catch (err) {
+    logger.warn(`写入交易流水失败 uid=${tx.uid}, type=${tx.type}, amount=${tx.amount}：`, err)
+  }
+}
+
+/**
+ * 分页查询用户交易流水（按时间倒序）
+ * @param filter 可选过滤条件：货币、类型、起止日期（含起始日，不含结束日的次日）
+ * @returns 当前页记录与符合条件的总条数
+ */
+async function queryTransactions(
+  ctx: Context,
+  uid: number,
+  filter: { currency?: string; type?: TransactionType; from?: Date; to?: Date },
+  page: number
+): Promise<{ records: MonetaryBankTransaction[]; total: number }> {
+  const query: Query.Expr<MonetaryBankTransaction> = { uid }
+  if (filter.currency) query.currency = filter.currency
+  if (filter.type) query.type = filter.type
+  if (filter.from || filter.to) {
+    const range: Query.Field<Date> = {}
+    if (filter.from) range.$gte = filter.from
+    if (filter.to) {
+      // 结束日期包含当天，因此取次日0点作为上界
+      range.$lt = addDays(filter.to, 1)
+    }
+    query.createdAt = range
+  }
+
+  const total = await ctx.database.eval('monetary_bank_tx', row => $.count(row.id), query)
+  const records = await ctx.database
+    .select('monetary_bank_tx')
+    .where(query)
+    .orderBy('createdAt', 'desc')
+    .limit(HISTORY_PAGE_SIZE)
+    .offset((page - 1) * HISTORY_PAGE_SIZE)
+    .execute()
+
+  return { records, total }
+}
+
+/**
+ * 解析用户输入的日期（YYYY-MM-DD 或 YYYY/MM/DD），返回配置时区中当天0点；无法解析时返回 null
+ */
+function parseDateInput(input: string): Date | null {
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(input.trim())
+  if (!match) return null
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  return zonedMidnight(year, month, day)
+}
+
+/**
+ * 生成存款确认消息（接口函数，便于后续扩展内容）
+ * @param amount 存款金额
+ * @param currency 货币类型
+ * @param cash 当前现金余额
+ * @returns 确认消息文本
+ */
+function generateDepositConfirmMessage(amount: number, currency: string, cash: number): string {
+  return `您将存入 ${amount} ${currency} 到银行，当前现金：${cash} ${currency}。\n确认操作请回复 yes 或 y，取消请回复其他内容。`
+}
+
+/**
+ * 生成取款确认消息（接口函数，便于后续扩展内容）
+ * @param amount 取款金额
+ * @param currency 货币类型
+ * @param bankBalance 当前银行余额
+ * @param overdraw 其中需透支的金额
+ * @returns 确认消息文本
+ */
+function generateWithdrawConfirmMessage(amount: number, currency: string, bankBalance: number, overdraw: number = 0): string {
+  const overdrawText = overdraw > 0 ? `，其中 ${overdraw} ${currency} 将使用透支额度` : ''
+  return `您将从银行取出 ${amount} ${currency}，当前存款：${bankBalance} ${currency}${overdrawText}。\n确认操作请回复 yes 或 y，取消请回复其他内容。`
+}
+
+/**
+ * 生成转账确认消息（接口函数，便于后续扩展内容）
+ * @param amount 转账金额
+ * @param currency 货币类型
+ * @param target 接收方名称
+ * @param demand 当前活期余额
+ * @returns 确认消息文本
+ */
+function generateTransferConfirmMessage(amount: number, currency: string, target: string, demand: number): string {
+  return `您将从活期向 ${target} 转账 ${amount} ${currency}，当前活期：${demand} ${currency}。\n确认操作请回复 yes 或 y，取消请回复其他内容。`
+}
+
+/**
+ * 生成兑换确认消息（接口函数，便于后续扩展内容）
+ * @param amount 兑换金额
+ * @param from 源货币
+ * @param to 目标货币
+ * @param quote 兑换报价
+ * @returns 确认消息文本
+ */
+function generateExchangeConfirmMessage(amount: number, from: string, to: string, quote: { rate: number; fee: number; net: number }): string {
+  return `您将从活期兑换 ${amount} ${from}，汇率 1 ${from} = ${quote.rate} ${to}，扣除点差 ${quote.fee} ${to} 后到账 ${quote.net} ${to}（存入活期）。\n确认操作请回复 yes 或 y，取消请回复其他内容。`
+}
+
+/**
+ * 内部函数（仅供单元测试使用，不属于公开 API，可能随版本变化）
+ */
+export const internal = {
+  createFixedDeposit,
+  earlyWithdrawFixed,
+  settleInterestForDay,
+  zonedMidnight,
+  startOfDay,
+  addDays,
+  addMonths,
+  calculateNextSettlementDate
+}
+
+/**
+ * 插件主函数
+ */
+export async function apply(ctx: Context, config: Config) {
+  // 根据配置设置 debug 开关（必须在 initDatabase 前设置以便输出可控）
+  debugEnabled = typeof config?.debug === 'boolean' ? config.debug : true
+  dateSettings = { timezone: resolveTimezone(config.timezone), weekAnchor: config.weekAnchor ?? 1 }
+
+  // 注册内置现金后端并按配置启用
+  currencyBackends.set('monetary', createMonetaryBackend(ctx))
+  currencyBackends.set('table', createTableBackend(ctx, config.currencyBackend))
+  activeCurrencyBackend = config.currencyBackend?.type || 'monetary'
+
+  // 注册内置汇率提供者并按配置启用
+  exchangeRateProviders.set('config', createConfigRateProvider(config))
+  activeExchangeRateProvider = config.exchange?.provider || 'config'
+
+  // 在插件启动前初始化数据库
+  const dbInitSuccess = await initDatabase(ctx)
+
+  // 如果数据库初始化失败，停止加载插件
+  if (!dbInitSuccess) {
+    logger.error('插件加载失败：数据库初始化未通过')
+    return
+  }
+
+  logSuccess('✓ monetary-bank 插件加载成功')
+
+  // 注册银行API服务
+  const api = new MonetaryBankAPI(ctx, config)
+  
+  // 使用 ctx.set() 注册服务，支持热重载时自动覆盖
+  // 这种方式不会在重复注册时抛出错误
+  ctx.set('monetaryBank', api)
+
+  // 记录利率配置的变更（供 bank.rates 查询）
+  await recordRateChanges(ctx, config)
+
+  // 注册主命令：银行首页
+  ctx.command('bank', '银行服务')
+    .userFields(['id'])
+    .action(async ({ session }) => {
+      const uid = session.user.id
+      const currency = config.defaultCurrency || 'coin'
+      
+      try {
+        const balance = await ctx.monetaryBank.getBalance(uid, currency)
+        const cash = await getMonetaryBalance(uid, currency) || 0
+        const overdraft = await getOverdraftStatus(ctx, config, uid, currency)
+        
+        // 使用图形化首页
+        return await renderBankHomePage(
+          session.username || session.userId,
+          balance,
+          cash,
+          currency,
+          config.enableInterest || false,
+          overdraft
+        )
+      } catch (error) {
+        logger.error('获取银行信息失败:', error)
+        return '获取银行信息失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：查询存款
+  ctx.command('bank.bal [currency:string]', '查询银行存款')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .action(async ({ session, options }, currencyArg) => {
+      const uid = session.user.id
+      const currencyInput = options?.currency || currencyArg || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+
+      try {
+        const balance = await ctx.monetaryBank.getBalance(uid, currency)
+        
+        // 活期已全部取出但仍有待发放的计提利息或未还透支时继续展示
+        const accrued = await getAccruedInterest(ctx, config, uid, currency)
+        const overdraft = await getOverdraftStatus(ctx, config, uid, currency)
+        if (balance.total === 0 && accrued === 0 && overdraft.owed === 0) {
+          return `您在银行中还没有 ${currency} 存款。`
+        }
+
+        // 使用图形化渲染（配置了阶梯利率时附带各档计息明细）
+        const demandRate = getDemandRate(config, currency)
+        const tiers = config.demandInterest?.tiers || []
+        const tierBreakdown = tiers.length ? calculateTieredInterest(balance.demand, tiers).breakdown : []
+        return await renderBankBalanceImage(session.username || session.userId, balance, currency, demandRate, tierBreakdown, accrued, overdraft)
+
+      } catch (error) {
+        logger.error('查询存款失败:', error)
+        return '查询失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：存款（自动转为活期）
+  ctx.command('bank.in [amount:string]', '存入货币到银行活期')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .option('yes', '-y 跳过确认直接执行')
+    .action(async ({ session, options }, amount) => {
+      const uid = session.user.id
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+
+      try {
+        // 交互式输入金额
+        if (!amount) {
+          await session.send(`请输入存款金额（正整数或 all）：`)
+          const amountInput = await session.prompt(30000)
+          if (!amountInput) return '操作超时，已取消存款。'
+          amount = amountInput.trim()
+        }
+
+        // 解析金额（支持 all 关键字）
+        let cash = await getMonetaryBalance(uid, currency)
+        if (cash === null) {
+          const created = await createMonetaryUser(uid, currency)
+          if (!created) return '无法验证/创建主货币账户（monetary），请联系管理员。'
+          cash = 0
+        }
+
+        const amountInput = String(amount || '').trim().toLowerCase()
+        let amountNum: number
+        
+        if (amountInput === 'all') {
+          amountNum = Math.floor(cash)
+          if (amountNum <= 0) return `没有可存入的现金。当前现金：${cash} ${currency}`
+        } else {
+          amountNum = parseInt(amountInput, 10)
+          if (Number.isNaN(amountNum) || amountNum <= 0) {
+            return '请输入有效的存款金额（正整数或 all）。'
+          }
+        }
+
+        // 二次确认
+        if (!options?.yes) {
+          // 使用图形化确认页面（如果可用）
+          if (ctx.puppeteer) {
+            const confirmImage = await renderDepositConfirmPage(
+              session.username || session.userId,
+              amountNum,
+              currency,
+              cash
+            )
+            await session.send(confirmImage)
+          } else {
+            const confirmMsg = generateDepositConfirmMessage(amountNum, currency, cash)
+            await session.send(confirmMsg)
+          }
+          
+          const userInput = await session.prompt(30000)
+          if (!userInput) return '操作超时，已取消存款。'
+          
+          const confirmed = userInput.trim().toLowerCase()
+          if (confirmed !== 'yes' && confirmed !== 'y') {
+            return '已取消存款操作。'
+          }
+        }
+
+        // 调用API存款
+        const result = await ctx.monetaryBank.deposit(uid, currency, amountNum)
+        
+        if (!result.success) {
+          return result.error || '存款失败'
+        }
+
+        // 使用图形化界面显示成功结果
+        return await renderDepositSuccessImage(
+          session.username || session.userId,
+          amountNum,
+          currency,
+          result.newCash,
+          result.newBalance
+        )
+
+      } catch (error) {
+        logger.error('存款失败:', error)
+        return '存款失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：取款（仅从活期扣除）
+  ctx.command('bank.out [amount:string]', '从银行取出货币')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .option('yes', '-y 跳过确认直接执行')
+    .action(async ({ session, options }, amount) => {
+      const uid = session.user.id
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+
+      try {
+        // 查询活期余额与剩余透支额度
+        const balance = await ctx.monetaryBank.getBalance(uid, currency)
+        const overdraft = await getOverdraftStatus(ctx, config, uid, currency)
+        
+        if (balance.demand === 0 && overdraft.available === 0) {
+          return `没有可取出的存款。当前活期：${balance.demand} ${currency}`
+        }
+
+        // 交互式输入金额
+        if (!amount) {
+          const overdraftText = overdraft.available > 0 ? `（另可透支 ${overdraft.available} ${currency}，all 不含透支额度）` : ''
+          await session.send(`请输入取款金额（正整数或 all）：\n当前可用余额：${balance.demand} ${currency}${overdraftText}`)
+          const amountInput = await session.prompt(30000)
+          if (!amountInput) return '操作超时，已取消取款。'
+          amount = amountInput.trim()
+        }
+
+        // 解析金额（支持 all 关键字）
+        const amountInput = String(amount || '').trim().toLowerCase()
+        let amountNum: number
+        
+        if (amountInput === 'all') {
+          amountNum = Math.floor(balance.demand)
+          if (amountNum <= 0) return `没有可取出的存款（all 不含透支额度，请输入具体金额）。当前活期：${balance.demand} ${currency}`
+        } else {
+          amountNum = parseInt(amountInput, 10)
+          if (Number.isNaN(amountNum) || amountNum <= 0) {
+            return '请输入有效的取款金额（正整数或 all）。'
+          }
+        }
+        const overdraw = Math.max(0, normalizeAmount(amountNum - balance.demand))
+
+        // 二次确认
+        if (!options?.yes) {
+          // 使用图形化确认页面（如果可用）
+          if (ctx.puppeteer) {
+            const confirmImage = await renderWithdrawConfirmPage(
+              session.username || session.userId,
+              amountNum,
+              currency,
+              balance.demand,
+              overdraw
+            )
+            await session.send(confirmImage)
+          } else {
+            const confirmMsg = generateWithdrawConfirmMessage(amountNum, currency, balance.demand, overdraw)
+            await session.send(confirmMsg)
+          }
+          
+          const userInput = await session.prompt(30000)
+          if (!userInput) return '操作超时，已取消取款。'
+          
+          const confirmed = userInput.trim().toLowerCase()
+          if (confirmed !== 'yes' && confirmed !== 'y') {
+            return '已取消取款操作。'
+          }
+        }
+
+        // 调用API取款
+        const result = await ctx.monetaryBank.withdraw(uid, currency, amountNum)
+        
+        if (!result.success) {
+          return result.error || '取款失败'
+        }
+
+        // 使用图形化界面显示成功结果
+        return await renderWithdrawSuccessImage(
+          session.username || session.userId,
+          amountNum,
+          currency,
+          result.newCash,
+          result.newBalance
+        )
+
+      } catch (error) {
+        logger.error('取款失败:', error)
+        return '取款失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：转账（从活期转给其他用户）
+  ctx.command('bank.transfer <target:user> [amount:string]', '向其他用户转账')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .option('yes', '-y 跳过确认直接执行')
+    .action(async ({ session, options }, target, amount) => {
+      const uid = session.user.id
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+
+      if (!target) return '请指定转账对象，例如：bank.transfer @用户 100'
+
+      try {
+        // 通过 Koishi 账号绑定解析接收方用户ID
+        const separator = target.indexOf(':')
+        const platform = target.slice(0, separator)
+        const pid = target.slice(separator + 1)
+        const targetUser = await ctx.database.getUser(platform, pid, ['id'])
+        if (!targetUser) return '对方尚未使用过机器人，无法转账。'
+        if (targetUser.id === uid) return '不能向自己转账。'
+
+        // 接收方显示名称（获取失败时使用平台ID）
+        let targetName = pid
+        try {
+          const info = await session.bot.getUser(pid)
+          targetName = info?.name || info?.nick || pid
+        } catch (err) {
+          // 部分适配器不支持查询用户信息，使用平台ID即可
+        }
+
+        // 查询活期余额
+        const balance = await ctx.monetaryBank.getBalance(uid, currency)
+        if (balance.demand === 0) {
+          return `没有可转出的存款。当前活期：${balance.demand} ${currency}`
+        }
+
+        // 交互式输入金额
+        if (!amount) {
+          await session.send(`请输入转账金额（正整数或 all）：\n当前可用余额：${balance.demand} ${currency}`)
+          const amountInput = await session.prompt(30000)
+          if (!amountInput) return '操作超时，已取消转账。'
+          amount = amountInput.trim()
+        }
+
+        // 解析金额（支持 all 关键字）
+        const amountInput = String(amount || '').trim().toLowerCase()
+        let amountNum: number
+
+        if (amountInput === 'all') {
+          amountNum = Math.floor(balance.demand)
+          if (amountNum <= 0) return `没有可转出的活期存款。当前活期：${balance.demand} ${currency}`
+        } else {
+          amountNum = parseInt(amountInput, 10)
+          if (Number.isNaN(amountNum) || amountNum <= 0) {
+            return '请输入有效的转账金额（正整数或 all）。'
+          }
+        }
+
+        // 二次确认
+        if (!options?.yes) {
+          // 使用图形化确认页面（如果可用）
+          if (ctx.puppeteer) {
+            const confirmImage = await renderTransferConfirmPage(
+              session.username || session.userId,
+              amountNum,
+              currency,
+              targetName,
+              balance.demand
+            )
+            await session.send(confirmImage)
+          } else {
+            const confirmMsg = generateTransferConfirmMessage(amountNum, currency, targetName, balance.demand)
+            await session.send(confirmMsg)
+          }
+
+          const userInput = await session.prompt(30000)
+          if (!userInput) return '操作超时，已取消转账。'
+
+          const confirmed = userInput.trim().toLowerCase()
+          if (confirmed !== 'yes' && confirmed !== 'y') {
+            return '已取消转账操作。'
+          }
+        }
+
+        // 调用API转账
+        const result = await ctx.monetaryBank.transfer(uid, targetUser.id, currency, amountNum)
+
+        if (!result.success) {
+          return result.error || '转账失败'
+        }
+
+        // 使用图形化界面显示转账回单
+        return await renderTransferReceiptImage(
+          session.username || session.userId,
+          amountNum,
+          currency,
+          targetName,
+          result.newBalance
+        )
+
+      } catch (error) {
+        logger.error('转账失败:', error)
+        return '转账失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：货币兑换
+  ctx.command('bank.exchange [amount:string] [from:string] [to:string]', '货币兑换（活期之间）')
+    .userFields(['id'])
+    .option('yes', '-y 跳过确认直接执行')
+    .action(async ({ session, options }, amount, fromInput, toInput) => {
+      if (!config.exchange?.enabled) {
+        return '货币兑换功能未启用。'
+      }
+      if (!amount || !fromInput || !toInput) {
+        return '请指定兑换金额、源货币与目标货币，例如：bank.exchange 100 coin gold'
+      }
+
+      const uid = session.user.id
+      const from = resolveCurrency(config, fromInput)
+      if (!from) return getInvalidCurrencyMessage(config, fromInput)
+      const to = resolveCurrency(config, toInput)
+      if (!to) return getInvalidCurrencyMessage(config, toInput)
+      if (from === to) return '源货币与目标货币不能相同。'
+
+      try {
+        // 查询源货币活期余额
+        const balance = await ctx.monetaryBank.getBalance(uid, from)
+        if (balance.demand === 0) {
+          return `没有可兑换的存款。当前活期：${balance.demand} ${from}`
+        }
+
+        // 解析金额（支持 all 关键字）
+        const amountText = amount.trim().toLowerCase()
+        let amountNum: number
+        if (amountText === 'all') {
+          amountNum = Math.floor(balance.demand)
+        } else {
+          amountNum = parseInt(amountText, 10)
+          if (Number.isNaN(amountNum) || amountNum <= 0) {
+            return '请输入有效的兑换金额（正整数或 all）。'
+          }
+        }
+        if (amountNum > balance.demand) {
+          return `可用余额不足，当前活期：${balance.demand} ${from}`
+        }
+
+        // 报价后二次确认
+        if (!options?.yes) {
+          let quote: { rate: number; gross: number; fee: number; net: number }
+          try {
+            quote = await quoteExchange(config, from, to, amountNum)
+          } catch (error) {
+            if (error instanceof BankOperationError) return error.message
+            throw error
+          }
+          await session.send(await renderExchangeConfirmPage(session.username || session.userId, amountNum, from, to, quote, balance.demand))
+
+          const userInput = await session.prompt(30000)
+          if (!userInput) return '操作超时，已取消兑换。'
+
+          const confirmed = userInput.trim().toLowerCase()
+          if (confirmed !== 'yes' && confirmed !== 'y') {
+            return '已取消兑换操作。'
+          }
+        }
+
+        // 调用API兑换（按执行时的汇率成交）
+        const result = await ctx.monetaryBank.exchange(uid, from, to, amountNum)
+        if (!result.success) {
+          return result.error || '兑换失败'
+        }
+
+        return await renderExchangeReceiptImage(
+          session.username || session.userId,
+          amountNum,
+          from,
+          to,
+          result
+        )
+      } catch (error) {
+        logger.error('兑换失败:', error)
+        return '兑换失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：申请定期存款
+  ctx.command('bank.fixed', '申请定期存款')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .action(async ({ session, options }) => {
+      if (!config.enableInterest) {
+        return '利息功能未启用。'
+      }
+      
+      const uid = session.user.id
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+      
+      // 显示可用的定期方案
+      const plans = getFixedPlans(config, currency)
+      if (plans.length === 0) {
+        return '当前没有可用的定期存款方案。'
+      }
+      
+      // 检查用户资金
+      const cash = await getMonetaryBalance(uid, currency) || 0
+      const balance = await getBankBalance(ctx, uid, currency)
+      
+      // 使用图形化方案选择页面（如果可用）
+      if (ctx.puppeteer) {
+        const planImage = await renderFixedPlanSelectionPage(
+          session.username || session.userId,
+          plans,
+          cash,
+          balance.demand,
+          currency
+        )
+        await session.send(planImage)
+      } else {
+        let msg = '可选的定期存款方案：\n'
+        plans.forEach((plan, index) => {
+          msg += `${index + 1}. ${plan.name} - 利率：${describeRate(plan.rate || 0, plan.model, plan.cycle)} - 每${CYCLE_LABELS[plan.cycle]}计息 - ${describePlanTerms(plan)}\n`
+        })
+        msg += '\n请输入方案编号选择，或输入 0 取消：'
+        await session.send(msg)
+      }
+      
+      const planInput = await session.prompt(30000)
+      if (!planInput) return '操作超时，已取消。'
+      
+      const planIndex = parseInt(planInput.trim()) - 1
+      if (planIndex < 0) return '已取消定期存款申请。'
+      if (planIndex >= plans.length) return '无效的方案编号。'
+      
+      const selectedPlan = plans[planIndex]
+      
+      // 询问金额
+      const limitText = selectedPlan.minAmount || selectedPlan.maxAmount
+        ? `，单笔 ${selectedPlan.minAmount || 0}~${selectedPlan.maxAmount || '不限'} ${currency}`
+        : ''
+      await session.send(`请输入存入金额（优先使用现金，不足时使用银行活期存款${limitText}）：`)
+      const amountInput = await session.prompt(30000)
+      if (!amountInput) return '操作超时，已取消。'
+      
+      const amount = parseInt(amountInput.trim())
+      if (!amount || amount <= 0) return '无效的金额。'
+      
+      try {
+        // 检查用户资金
+        const cash = await getMonetaryBalance(uid, currency) || 0
+        const balance = await getBankBalance(ctx, uid, currency)
+        
+        const totalAvailable = cash + balance.demand
+        if (totalAvailable < amount) {
+          return `资金不足！现金：${cash} ${currency}，活期存款：${balance.demand} ${currency}，合计：${totalAvailable} ${currency}`
+        }
+        
+        // 确认
+        await session.send(`将存入 ${amount} ${currency} 到定期（${selectedPlan.name}），利率 ${selectedPlan.rate}%。\n确认请输入 yes 或 y：`)
+        const confirm = await session.prompt(30000)
+        if (!confirm || !['yes', 'y'].includes(confirm.trim().toLowerCase())) {
+          return '已取消定期存款申请。'
+        }
+        
+        // 扣款并创建定期记录（优先扣现金，不足时扣活期），任一步失败则整体回滚
+        const { fromCash, fromDemand, record: fixedRecord } = await createFixedDeposit(ctx, uid, currency, selectedPlan, amount)
+        const maturityDate = fixedRecord.maturityDate
+        await recordTransaction(ctx, {
+          uid,
+          currency,
+          type: 'fixed_create',
+          amount,
+          recordId: fixedRecord.id,
+          note: `${selectedPlan.name}，现金 ${fromCash} + 活期 ${fromDemand}`
+        })
+        
+        const newBalance = await getBankBalance(ctx, uid, currency)
+        const newCash = await getMonetaryBalance(uid, currency) || 0
+        
+        // 使用图形化界面显示成功结果
+        return await renderFixedDepositSuccessImage(
+          session.username || session.userId,
+          amount,
+          currency,
+          selectedPlan.name,
+          selectedPlan.rate,
+          selectedPlan.cycle,
+          maturityDate,
+          fromCash,
+          fromDemand,
+          newCash,
+          newBalance
+        )
+        
+      } catch (error) {
+        if (error instanceof BankOperationError) return `${error.message}。`
+        logger.error('定期存款失败:', error)
+        return '定期存款失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：管理定期延期
+  ctx.command('bank.fixed.manage', '管理定期存款（延期 / 提前支取）')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .action(async ({ session, options }) => {
+      if (!config.enableInterest) {
+        return '利息功能未启用。'
+      }
+      
+      const uid = session.user.id
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+      
+      try {
+        // 查询用户的定期记录
+        const fixedRecords = await ctx.database
+          .select('monetary_bank_int')
+          .where({ uid, currency, type: 'fixed' })
+          .orderBy('settlementDate', 'asc')
+          .execute()
+        
+        if (fixedRecords.length === 0) {
+          return '您没有定期存款记录。'
+        }
+        
+        // 使用图形化界面显示列表
+        await session.send(await renderFixedDepositListImage(
+          session.username || session.userId,
+          fixedRecords,
+          currency
+        ))
+        await session.send('请输入编号管理，或输入 0 退出：')
+        
+        const input = await session.prompt(30000)
+        if (!input) return '操作超时。'
+        
+        const recordIndex = parseInt(input.trim()) - 1
+        if (recordIndex < 0) return '已退出。'
+        if (recordIndex >= fixedRecords.length) return '无效的编号。'
+        
+        const selectedRecord = fixedRecords[recordIndex]
+        if (selectedRecord.pledged) {
+          return '该定期存款已质押，还清质押贷款前不能延期或提前支取（可使用 bank.loan.list 查看贷款）。'
+        }
+        
+        // 选择操作：延期管理或提前支取
+        await session.send(`请选择操作：\n1. ${selectedRecord.extendRequested ? '取消延期' : '申请延期'}\n2. 提前支取\n输入 0 退出：`)
+        const actionInput = await session.prompt(30000)
+        if (!actionInput) return '操作超时。'
+        
+        const actionIndex = parseInt(actionInput.trim())
+        if (actionIndex === 2) {
+          // 提前支取：输入金额 -> 预览违约金 -> 确认
+          await session.send(`请输入提前支取金额（正整数或 all），当前定期：${selectedRecord.amount} ${currency}：`)
+          const amountInput = await session.prompt(30000)
+          if (!amountInput) return '操作超时。'
+          
+          const amountText = amountInput.trim().toLowerCase()
+          const amount = amountText === 'all' ? selectedRecord.amount : parseInt(amountText, 10)
+          if (Number.isNaN(amount) || amount <= 0) return '无效的金额。'
+          if (amount > selectedRecord.amount) return `支取金额超过定期金额（${selectedRecord.amount} ${currency}）。`
+          
+          const penaltyRate = getEarlyPenaltyRate(config, selectedRecord)
+          await session.send(await renderEarlyWithdrawPreviewPage(
+            session.username || session.userId,
+            selectedRecord,
+            amount,
+            penaltyRate,
+            currency
+          ))
+          
+          const confirm = await session.prompt(30000)
+          if (!confirm) return '操作超时。'
+          if (!['yes', 'y'].includes(confirm.trim().toLowerCase())) {
+            return '已取消提前支取。'
+          }
+          
+          const result = await earlyWithdrawFixed(ctx, config, uid, currency, selectedRecord.id, amount)
+          return await renderEarlyWithdrawSuccessPage(
+            session.username || session.userId,
+            result,
+            currency
+          )
+        }
+        if (actionIndex !== 1) return '已退出。'
+        
+        // 延期管理
+        if (selectedRecord.extendRequested) {
+          // 图形化取消延期确认页面
+          const cycleText = selectedRecord.nextCycle === 'day' ? '日' : selectedRecord.nextCycle === 'week' ? '周' : '月'
+          await session.send(await renderCancelExtensionPage(
+            session.username || session.userId,
+            selectedRecord.amount,
+            currency,
+            `${selectedRecord.nextRate}% / ${cycleText}`
+          ))
+          
+          const action = await session.prompt(30000)
+          if (!action) return '操作超时。'
+          if (action.trim().toLowerCase() !== 'yes' && action.trim().toLowerCase() !== 'y') {
+            return '已取消操作。'
+          }
+          
+          await withUserLock([{ uid, currency }], () => ctx.database.set('monetary_bank_int', { id: selectedRecord.id }, {
+            extendRequested: false,
+            nextRate: null,
+            nextCycle: null,
+            nextPlanName: null
+          }))
+          
+          return await renderExtensionSuccessPage(
+            session.username || session.userId,
+            'cancel',
+            selectedRecord.amount,
+            currency
+          )
+        } else {
+          // 图形化延期方案选择
+          const plans = getFixedPlans(config, currency)
+          await session.send(await renderExtensionPlanSelectionPage(
+            session.username || session.userId,
+            plans,
+            selectedRecord.amount,
+            currency
+          ))
+          
+          const planInput = await session.prompt(30000)
+          if (!planInput) return '操作超时。'
+          
+          const planIndex = parseInt(planInput.trim()) - 1
+          if (planIndex < 0) return '已返回。'
+          if (planIndex >= plans.length) return '无效的方案编号。'
+          
+          const newPlan = plans[planIndex]
+          
+          await withUserLock([{ uid, currency }], () => ctx.database.set('monetary_bank_int', { id: selectedRecord.id }, {
+            extendRequested: true,
+            nextRate: newPlan.rate,
+            nextCycle: newPlan.cycle,
+            nextPlanName: newPlan.name
+          }))
+          
+          return await renderExtensionSuccessPage(
+            session.username || session.userId,
+            'apply',
+            selectedRecord.amount,
+            currency,
+            newPlan.name,
+            newPlan.rate,
+            newPlan.cycle
+          )
+        }
+        
+      } catch (error) {
+        if (error instanceof BankOperationError) return `${error.message}。`
+        logger.error('管理定期失败:', error)
+        return '操作失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：查询交易流水
+  ctx.command('bank.history [page:posint]', '查询银行交易流水')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .option('type', '-t <type:string> 指定流水类型（如 deposit / 存款）')
+    .option('from', '-f <date:string> 起始日期（YYYY-MM-DD）')
+    .option('to', '-e <date:string> 结束日期（YYYY-MM-DD）')
+    .action(async ({ session, options }, page) => {
+      const uid = session.user.id
+      const pageNum = page || 1
+
+      // 校验货币（未指定时查询全部货币）
+      const currency = options?.currency ? resolveCurrency(config, options.currency) : undefined
+      if (currency === null) return getInvalidCurrencyMessage(config, options.currency)
+
+      // 解析流水类型（支持英文类型名或中文名称）
+      let type: TransactionType | undefined
+      if (options?.type) {
+        const input = options.type.trim().toLowerCase()
+        type = (Object.keys(TRANSACTION_TYPES) as TransactionType[])
+          .find(key => key === input || TRANSACTION_TYPES[key].label === input)
+        if (!type) {
+          return `无效的流水类型。可选：${Object.entries(TRANSACTION_TYPES).map(([key, meta]) => `${key}（${meta.label}）`).join('、')}`
+        }
+      }
+
+      // 解析日期范围
+      const from = options?.from ? parseDateInput(options.from) : undefined
+      const to = options?.to ? parseDateInput(options.to) : undefined
+      if (from === null || to === null) {
+        return '日期格式无效，请使用 YYYY-MM-DD 格式。'
+      }
+      if (from && to && from > to) {
+        return '起始日期不能晚于结束日期。'
+      }
+
+      try {
+        const filter = { currency, type, from, to }
+        const { records, total } = await queryTransactions(ctx, uid, filter, pageNum)
+
+        if (total === 0) {
+          return '没有符合条件的交易流水。'
+        }
+
+        const totalPages = Math.ceil(total / HISTORY_PAGE_SIZE)
+        if (pageNum > totalPages) {
+          return `页码超出范围，共 ${totalPages} 页。`
+        }
+
+        return await renderTransactionHistoryImage(
+          session.username || session.userId,
+          records,
+          pageNum,
+          totalPages,
+          total,
+          filter
+        )
+      } catch (error) {
+        logger.error('查询交易流水失败:', error)
+        return '查询失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：利率历史
+  ctx.command('bank.rates [page:posint]', '查询利率变更历史')
+    .action(async ({ session }, page) => {
+      const pageNum = page || 1
+
+      try {
+        const { records, total } = await queryRateHistory(ctx, pageNum)
+
+        if (total === 0) {
+          return '暂无利率变更记录。'
+        }
+
+        const totalPages = Math.ceil(total / HISTORY_PAGE_SIZE)
+        if (pageNum > totalPages) {
+          return `页码超出范围，共 ${totalPages} 页。`
+        }
+
+        return await renderRateHistoryImage(
+          session.username || session.userId,
+          records,
+          pageNum,
+          totalPages,
+          total
+        )
+      } catch (error) {
+        logger.error('查询利率历史失败:', error)
+        return '查询失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：贷款
+  ctx.command('bank.loan', '查看贷款产品与可贷额度')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .action(async ({ session, options }) => {
+      if (!config.loan?.enabled) {
+        return '贷款功能未启用。'
+      }
+
+      const uid = session.user.id
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+
+      const products = config.loan.products || []
+      if (products.length === 0) {
+        return '当前没有可用的贷款产品。'
+      }
+
+      try {
+        const quotas = []
+        for (const product of products) {
+          quotas.push(await getLoanQuota(ctx, uid, currency, product))
+        }
+        return await renderLoanProductsImage(session.username || session.userId, currency, products, quotas)
+      } catch (error) {
+        logger.error('查询贷款产品失败:', error)
+        return '查询失败，请稍后再试。'
+      }
+    })
+
+  ctx.command('bank.loan.apply <product:string> <amount:string>', '申请贷款')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .option('yes', '-y 跳过确认直接执行')
+    .usage('product 可填产品名称或 bank.loan 列表中的序号，amount 可填正整数或 all（全部可贷额度）\n例如：bank.loan.apply 1 500')
+    .action(async ({ session, options }, productInput, amount) => {
+      if (!config.loan?.enabled) {
+        return '贷款功能未启用。'
+      }
+      if (!productInput || !amount) {
+        return '请指定贷款产品与金额，例如：bank.loan.apply 1 500'
+      }
+
+      const uid = session.user.id
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+
+      // 解析产品（支持名称或序号）
+      const products = config.loan.products || []
+      const index = parseInt(productInput, 10)
+      const product = products.find(p => p.name === productInput) || (String(index) === productInput.trim() ? products[index - 1] : undefined)
+      if (!product) {
+        return `贷款产品不存在。可选：${products.map((p, i) => `${i + 1}. ${p.name}`).join('、') || '无'}`
+      }
+
+      try {
+        const quota = await getLoanQuota(ctx, uid, currency, product)
+        if (quota.available <= 0) {
+          return `当前没有可贷额度（额度 ${quota.limit} ${currency}，已借未还本金 ${quota.used} ${currency}）。存入更多存款可提高额度。`
+        }
+
+        // 解析金额（支持 all 关键字）
+        const amountText = amount.trim().toLowerCase()
+        const amountNum = amountText === 'all' ? quota.available : parseInt(amountText, 10)
+        if (Number.isNaN(amountNum) || amountNum <= 0) {
+          return '请输入有效的贷款金额（正整数或 all）。'
+        }
+        if (amountNum > quota.available) {
+          return `超出可贷额度，当前可贷：${quota.available} ${currency}`
+        }
+
+        // 二次确认
+        if (!options?.yes) {
+          await session.send(await renderLoanConfirmPage(session.username || session.userId, product, amountNum, currency))
+
+          const userInput = await session.prompt(30000)
+          if (!userInput) return '操作超时，已取消贷款。'
+
+          const confirmed = userInput.trim().toLowerCase()
+          if (confirmed !== 'yes' && confirmed !== 'y') {
+            return '已取消贷款申请。'
+          }
+        }
+
+        const result = await ctx.monetaryBank.applyLoan(uid, currency, product.name, amountNum)
+        if (!result.success) {
+          return result.error || '贷款失败'
+        }
+
+        return await renderLoanStatementImage(session.username || session.userId, '借款成功', result.loan, [
+          { label: '到账方式', value: '现金' },
+          { label: '当前现金', value: `${result.newCash.toLocaleString()} ${currency}` }
+        ])
+      } catch (error) {
+        logger.error('申请贷款失败:', error)
+        return '贷款失败，请稍后再试。'
+      }
+    })
+
+  ctx.command('bank.loan.pledge [amount:string]', '以定期存款质押贷款')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .option('yes', '-y 跳过确认直接执行')
+    .usage('选择一笔定期存款质押借款，最多可借定期本金的质押率比例；amount 可填正整数或 all（默认全部可借额度）\n质押期间定期不可延期或提前支取，到期时优先偿还贷款，剩余部分转为活期')
+    .action(async ({ session, options }, amount) => {
+      if (!config.loan?.enabled || !config.loan.pledgeLtv || !config.enableInterest) {
+        return '定期质押贷款未开放。'
+      }
+
+      const uid = session.user.id
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+
+      try {
+        // 列出定期记录（与 bank.fixed.manage 相同的顺序与编号）
+        const fixedRecords = await ctx.database
+          .select('monetary_bank_int')
+          .where({ uid, currency, type: 'fixed' })
+          .orderBy('settlementDate', 'asc')
+          .execute()
+        if (fixedRecords.length === 0) {
+          return '您没有可质押的定期存款。'
+        }
+
+        await session.send(await renderFixedDepositListImage(
+          session.username || session.userId,
+          fixedRecords,
+          currency,
+          `请输入编号选择要质押的定期存款（质押率 ${config.loan.pledgeLtv}%），输入 0 退出`
+        ))
+        await session.send('请输入编号质押，或输入 0 退出：')
+
+        const input = await session.prompt(30000)
+        if (!input) return '操作超时。'
+
+        const recordIndex = parseInt(input.trim()) - 1
+        if (recordIndex < 0) return '已退出。'
+        if (recordIndex >= fixedRecords.length) return '无效的编号。'
+
+        const record = fixedRecords[recordIndex]
+        if (record.pledged) return '该定期存款已质押，请先还清对应的质押贷款。'
+        if (record.extendRequested) return '该定期存款已申请延期，请先在 bank.fixed.manage 中取消延期。'
+
+        // 解析金额（默认全部可借额度）
+        const limit = getPledgeLimit(config, record)
+        const amountText = String(amount || 'all').trim().toLowerCase()
+        const amountNum = amountText === 'all' ? limit : parseInt(amountText, 10)
+        if (Number.isNaN(amountNum) || amountNum <= 0) {
+          return limit > 0 ? '请输入有效的借款金额（正整数或 all）。' : '该定期存款金额过小，无法质押。'
+        }
+        if (amountNum > limit) {
+          return `超出质押额度，最多可借：${limit} ${currency}`
+        }
+
+        // 二次确认
+        if (!options?.yes) {
+          await session.send(await renderPledgeConfirmPage(session.username || session.userId, record, amountNum, limit))
+
+          const userInput = await session.prompt(30000)
+          if (!userInput) return '操作超时，已取消贷款。'
+
+          const confirmed = userInput.trim().toLowerCase()
+          if (confirmed !== 'yes' && confirmed !== 'y') {
+            return '已取消贷款申请。'
+          }
+        }
+
+        const result = await ctx.monetaryBank.pledgeLoan(uid, record.id, amountNum)
+        if (!result.success) {
+          return result.error || '贷款失败'
+        }
+
+        return await renderLoanStatementImage(session.username || session.userId, '借款成功', result.loan, [
+          { label: '质押定期', value: `${record.planName ? `${record.planName} ` : ''}${record.amount.toLocaleString()} ${currency}` },
+          { label: '当前现金', value: `${result.newCash.toLocaleString()} ${currency}` }
+        ])
+      } catch (error) {
+        logger.error('定期质押贷款失败:', error)
+        return '贷款失败，请稍后再试。'
+      }
+    })
+
+  ctx.command('bank.loan.repay <id:posint> [amount:string]', '偿还贷款')
+    .userFields(['id'])
+    .option('yes', '-y 跳过确认直接执行')
+    .usage('从现金偿还贷款，先还利息再还本金；amount 可填正整数或 all（默认全部结清）')
+    .action(async ({ session, options }, id, amount) => {
+      if (!config.loan?.enabled) {
+        return '贷款功能未启用。'
+      }
+      if (!id) return '请输入要偿还的贷款编号。'
+      const uid = session.user.id
+
+      try {
+        const [loan] = await ctx.database.get('monetary_bank_loan', { id, uid, status: { $ne: 'repaid' } })
+        if (!loan) return `未找到编号为 ${id} 的未结清贷款。`
+
+        // 解析金额（默认全部结清）
+        const owed = getLoanOwed(loan)
+        const amountText = String(amount || 'all').trim().toLowerCase()
+        const amountNum = amountText === 'all' ? owed : parseInt(amountText, 10)
+        if (Number.isNaN(amountNum) || amountNum <= 0) {
+          return '请输入有效的还款金额（正整数或 all）。'
+        }
+        const pay = Math.min(amountNum, owed)
+
+        // 二次确认
+        if (!options?.yes) {
+          const cash = await getMonetaryBalance(uid, loan.currency) ?? 0
+          await session.send(await renderLoanRepayConfirmPage(session.username || session.userId, loan, pay, cash))
+
+          const userInput = await session.prompt(30000)
+          if (!userInput) return '操作超时，已取消还款。'
+
+          const confirmed = userInput.trim().toLowerCase()
+          if (confirmed !== 'yes' && confirmed !== 'y') {
+            return '已取消还款。'
+          }
+        }
+
+        const result = await ctx.monetaryBank.repayLoan(uid, id, pay)
+        if (!result.success) {
+          return result.error || '还款失败'
+        }
+
+        return await renderLoanStatementImage(session.username || session.userId, result.loan.status === 'repaid' ? '贷款已结清' : '还款成功', result.loan, [
+          { label: '本次还款', value: `${result.repaid.toLocaleString()} ${loan.currency}（利息 ${result.interestPaid.toLocaleString()}，本金 ${result.principalPaid.toLocaleString()}）` },
+          { label: '当前现金', value: `${result.newCash.toLocaleString()} ${loan.currency}` }
+        ])
+      } catch (error) {
+        logger.error('偿还贷款失败:', error)
+        return '还款失败，请稍后再试。'
+      }
+    })
+
+  ctx.command('bank.loan.list', '查看我的贷款')
+    .userFields(['id'])
+    .option('all', '-a 包含已结清的贷款')
+    .action(async ({ session, options }) => {
+      const uid = session.user.id
+
+      try {
+        const loans = await ctx.monetaryBank.getLoans(uid, undefined, !!options?.all)
+        if (loans.length === 0) {
+          return options?.all ? '您还没有贷款记录。' : '您没有未结清的贷款。'
+        }
+        return await renderLoanListImage(session.username || session.userId, loans.slice(0, HISTORY_PAGE_SIZE))
+      } catch (error) {
+        logger.error('查询贷款失败:', error)
+        return '查询失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：活期透支
+  ctx.command('bank.overdraft [action:string]', '查看或开通/关闭活期透支')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .usage('action 可填 on（开通）或 off（关闭），不填查看透支状态\n开通后活期不足时，取款的不足部分在透支额度内透支；之后存入的资金优先偿还透支')
+    .action(async ({ session, options }, action) => {
+      if (!config.overdraft?.enabled) {
+        return '透支功能未开放。'
+      }
+
+      const uid = session.user.id
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+
+      try {
+        const actionText = String(action || '').trim().toLowerCase()
+        if (actionText && actionText !== 'on' && actionText !== 'off') {
+          return '请输入 on（开通）或 off（关闭），不填查看透支状态。'
+        }
+        if (actionText) {
+          const result = await ctx.monetaryBank.setOverdraft(uid, currency, { enabled: actionText === 'on' })
+          if (!result.success) return result.error || '操作失败'
+        }
+
+        const overdraft = await ctx.monetaryBank.getOverdraft(uid, currency)
+        return await renderOverdraftImage(session.username || session.userId, currency, overdraft, actionText === 'on' ? '透支已开通' : actionText === 'off' ? '透支已关闭' : '活期透支')
+      } catch (error) {
+        logger.error('透支操作失败:', error)
+        return '操作失败，请稍后再试。'
+      }
+    })
+
+  ctx.command('bank.admin.overdraft <target:user> [limit:string]', '设置用户透支额度', { authority: 3 })
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .usage('limit 填非负整数设置固定额度，填 auto 改回按日均活期余额计算，不填查看该用户的透支状态')
+    .action(async ({ options }, target, limit) => {
+      if (!config.overdraft?.enabled) {
+        return '透支功能未开放。'
+      }
+      if (!target) return '请指定用户，例如：bank.admin.overdraft @用户 1000'
+
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+
+      try {
+        // 通过 Koishi 账号绑定解析用户ID
+        const separator = target.indexOf(':')
+        const targetUser = await ctx.database.getUser(target.slice(0, separator), target.slice(separator + 1), ['id'])
+        if (!targetUser) return '该用户尚未使用过机器人。'
+
+        if (limit) {
+          const limitText = limit.trim().toLowerCase()
+          const limitNum = limitText === 'auto' ? null : parseInt(limitText, 10)
+          if (limitNum !== null && (Number.isNaN(limitNum) || limitNum < 0)) {
+            return '请输入有效的额度（非负整数或 auto）。'
+          }
+          const result = await ctx.monetaryBank.setOverdraft(targetUser.id, currency, { limit: limitNum })
+          if (!result.success) return result.error || '设置失败'
+        }
+
+        // 未开通的用户也展示额度，便于管理员预先设置
+        const [account] = await ctx.database.get('monetary_bank_overdraft', { uid: targetUser.id, currency })
+        if (!account) return `用户 ${targetUser.id} 尚未开通 ${currency} 透支，也没有单独设置的额度。`
+        const limitValue = await getOverdraftLimit(ctx, config, account)
+        const limitSource = typeof account.limit === 'number' ? '管理员设置' : '按日均活期余额计算'
+        return `用户 ${targetUser.id} 的 ${currency} 透支：${account.enabled ? '已开通' : '未开通'}\n`
+          + `额度：${limitValue} ${currency}（${limitSource}）\n`
+          + `已透支本金：${account.used} ${currency}，未还利息：${account.interest} ${currency}`
+      } catch (error) {
+        logger.error('设置透支额度失败:', error)
+        return '操作失败，请稍后再试。'
+      }
+    })
+
+  ctx.command('bank.admin.treasury [currency:string]', '查看银行金库收支', { authority: 3 })
+    .option('days', '-d <days:posint> 统计最近天数（默认 30）')
+    .option('adjust', '-a <amount:string> 调整金库余额（正数注资，负数提取）')
+    .usage('例如：bank.admin.treasury coin -d 7，bank.admin.treasury coin -a 10000')
+    .action(async ({ options }, currencyInput) => {
+      const input = currencyInput || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, input)
+      if (!currency) return getInvalidCurrencyMessage(config, input)
+      const days = options?.days || 30
+
+      try {
+        if (options?.adjust) {
+          const amount = parseInt(options.adjust, 10)
+          if (Number.isNaN(amount) || amount === 0 || String(amount) !== options.adjust.trim().replace(/^\+/, '')) {
+            return '请输入有效的调整金额（非零整数，负数表示提取）。'
+          }
+          await withRollback(async (rollback) => {
+            await changeTreasury(ctx, currency, amount, rollback, { type: 'adjust', note: amount > 0 ? '管理员注资' : '管理员提取' })
+          })
+        }
+
+        const [treasury] = await ctx.database.get('monetary_bank_treasury', { currency })
+        const since = addDays(startOfDay(new Date()), 1 - days)
+        const flows: { type: TreasuryFlowType; inflow: number; outflow: number }[] = []
+        for (const type of Object.keys(TREASURY_FLOW_LABELS) as TreasuryFlowType[]) {
+          const query = { currency, type, createdAt: { $gte: since } }
+          const inflow = await ctx.database.eval('monetary_bank_treasury_tx', row => $.sum(row.amount), { ...query, amount: { $gt: 0 } })
+          const outflow = await ctx.database.eval('monetary_bank_treasury_tx', row => $.sum(row.amount), { ...query, amount: { $lt: 0 } })
+          if (inflow || outflow) {
+            flows.push({ type, inflow: normalizeAmount(inflow || 0), outflow: normalizeAmount(-(outflow || 0)) })
+          }
+        }
+        const recent = await ctx.database
+          .select('monetary_bank_treasury_tx')
+          .where({ currency })
+          .orderBy('id', 'desc')
+          .limit(10)
+          .execute()
+
+        return await renderTreasuryImage(currency, treasury?.balance || 0, days, flows, recent)
+      } catch (error) {
+        logger.error('查看金库失败:', error)
+        return '操作失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：信用分
+  ctx.command('bank.credit', '查询信用分')
+    .userFields(['id'])
+    .action(async ({ session }) => {
+      if (!config.credit?.enabled) {
+        return '信用分功能未启用。'
+      }
+
+      try {
+        const credit = await ctx.monetaryBank.getCreditScore(session.user.id)
+        return await renderCreditImage(session.username || session.userId, credit)
+      } catch (error) {
+        logger.error('查询信用分失败:', error)
+        return '查询失败，请稍后再试。'
+      }
+    })
+
+  // 注册命令：定时任务（周期存款/转账）
+  ctx.command('bank.schedule', '管理定时任务（周期存款/转账）')
+
+  ctx.command('bank.schedule.add <kind:string> <amount:posint> [target:user]', '添加定时任务')
+    .userFields(['id'])
+    .option('currency', '-c <currency:string> 指定货币类型')
+    .option('interval', '-i <interval:string> 执行周期（day/week/month，默认 week）')
+    .usage('kind 可选 deposit（现金存入活期）或 transfer（活期转账，需指定 @用户）\n例如：bank.schedule.add transfer 100 @用户 -i week')
+    .action(async ({ session, options }, kind, amount, target) => {
+      if (!config.standingOrder?.enabled) {
+        return '定时任务功能未启用。'
+      }
+
+      const uid = session.user.id
+      const currencyInput = options?.currency || config.defaultCurrency || 'coin'
+      const currency = resolveCurrency(config, currencyInput)
+      if (!currency) return getInvalidCurrencyMessage(config, currencyInput)
+
+      // 解析任务类型
+      const kindInput = String(kind || '').trim().toLowerCase()
+      const orderKind = ['deposit', '存款', '存入'].includes(kindInput) ? 'deposit'
+        : ['transfer', '转账'].includes(kindInput) ? 'transfer'
+        : null
+      if (!orderKind) return '无效的任务类型，可选：deposit（存款）、transfer（转账）。'
+      if (!amount) return '请输入有效的金额（正整数）。'
+
+      // 解析执行周期
+      const intervalInput = String(options?.interval || 'week').trim().toLowerCase()
+      const interval = (Object.keys(CYCLE_LABELS) as Array<'day' | 'week' | 'month'>)
+        .find(key => key === intervalInput || CYCLE_LABELS[key] === intervalInput)
+      if (!interval) return '无效的执行周期，可选：day（日）、week（周）、month（月）。'
+
+      try {
+        // 检查数量上限
+        const maxPerUser = config.standingOrder?.maxPerUser ?? 5
+        const existing = await ctx.database.get('monetary_bank_order', { uid, status: { $ne: 'cancelled' } })
+        if (maxPerUser > 0 && existing.length >= maxPerUser) {
+          return `定时任务数量已达上限（${maxPerUser} 条），请先取消不需要的任务。`
+        }
+
+        // 转账任务需要解析接收方
+        let toUid: number | undefined
+        let toName: string | undefined
+        if (orderKind === 'transfer') {
+          if (!target) return '转账任务需要指定接收方，例如：bank.schedule.add transfer 100 @用户'
+          const separator = target.indexOf(':')
+          const pid = target.slice(separator + 1)
+          const targetUser = await ctx.database.getUser(target.slice(0, separator), pid, ['id'])
+          if (!targetUser) return '对方尚未使用过机器人，无法设置转账任务。'
+          if (targetUser.id === uid) return '不能向自己转账。'
+          toUid = targetUser.id
+          toName = pid
+          try {
+            const info = await session.bot.getUser(pid)
+            toName = info?.name || info?.nick || pid
+          } catch (err) {
+            // 部分适配器不支持查询用户信息，使用平台ID即可
+          }
+        }
+
+        // 首次执行为下一次每日结算
+        const order = await ctx.database.create('monetary_bank_order', {
+          uid,
+          currency,
+          kind: orderKind,
+          amount,
+          toUid,
+          toName,
+          interval,
+          nextRunDate: calculateNextSettlementDate('day'),
+          status: 'active',
+          failCount: 0,
+          platform: session.platform,
+          selfId: session.selfId,
+          userId: session.userId,
+          channelId: session.isDirect ? undefined : session.channelId,
+          createdAt: new Date()
+        })
+
+        logInfo(`创建定时任务 id=${order.id}: uid=${uid}, ${describeStandingOrder(order)}`)
+        return `定时任务 #${order.id} 创建成功：${describeStandingOrder(order)}\n首次执行日期：${formatDate(order.nextRunDate)}\n余额不足时将通知您并在下次结算时重试。`
+      } catch (error) {
+        logger.error('创建定时任务失败:', error)
+        return '创建定时任务失败，请稍后再试。'
+      }
+    })
+
+  ctx.command('bank.schedule.list', '查看定时任务')
+    .userFields(['id'])
+    .action(async ({ session }) => {
+      const uid = session.user.id
+
+      try {
+        const orders = await ctx.database
+          .select('monetary_bank_order')
+          .where({ uid, status: { $ne: 'cancelled' } })
+          .orderBy('id', 'asc')
+          .execute()
+
+        if (orders.length === 0) {
+          return '您还没有定时任务，可使用 bank.schedule.add 添加。'
+        }
+
+        return await renderStandingOrderListImage(session.username || session.userId, orders)
+      } catch (error) {
+        logger.error('查询定时任务失败:', error)
+        return '查询失败，请稍后再试。'
+      }
+    })
+
+  ctx.command('bank.schedule.cancel <id:posint>', '取消定时任务')
+    .userFields(['id'])
+    .action(async ({ session }, id) => {
+      if (!id) return '请输入要取消的任务编号。'
+      const uid = session.user.id
+
+      try {
+        const [order] = await ctx.database.get('monetary_bank_order', { id, uid, status: { $ne: 'cancelled' } })
+        if (!order) return `未找到编号为 ${id} 的定时任务。`
+
+        await ctx.database.set('monetary_bank_order', { id }, { status: 'cancelled' })
+        logInfo(`取消定时任务 id=${id}: uid=${uid}`)
+        return `已取消定时任务 #${id}（${describeStandingOrder(order)}）。`
+      } catch (error) {
+        logger.error('取消定时任务失败:', error)
+        return '操作失败，请稍后再试。'
+      }
+    })
+
+  ctx.command('bank.schedule.resume <id:posint>', '恢复已暂停的定时任务')
+    .userFields(['id'])
+    .action(async ({ session }, id) => {
+      if (!id) return '请输入要恢复的任务编号。'
+      const uid = session.user.id
+
+      try {
+        const [order] = await ctx.database.get('monetary_bank_order', { id, uid, status: 'suspended' })
+        if (!order) return `未找到编号为 ${id} 的已暂停定时任务。`
+
+        // 恢复后从下一次每日结算开始执行
+        const nextRunDate = calculateNextSettlementDate('day')
+        await ctx.database.set('monetary_bank_order', { id }, { status: 'active', failCount: 0, lastError: null, nextRunDate })
+        logInfo(`恢复定时任务 id=${id}: uid=${uid}`)
+        return `已恢复定时任务 #${id}（${describeStandingOrder(order)}），下次执行日期：${formatDate(nextRunDate)}。`
+      } catch (error) {
+        logger.error('恢复定时任务失败:', error)
+        return '操作失败，请稍后再试。'
+      }
+    })
+
+  // 启动利息结算定时任务（同时负责执行定时任务与贷款结算）
+  if (config.enableInterest || config.standingOrder?.enabled || config.loan?.enabled || config.overdraft?.enabled || config.credit?.enabled) {
+    await scheduleInterestSettlement(ctx, config)
+  }
+
+  // --- 图形渲染函数 ---
+
+  /**
+   * 通用图片渲染函数
+   */
+  async function renderToImage(html: string, fallbackText: string) {
+    if (!ctx.puppeteer) {
+      return fallbackText
+    }
+
+    try {
+      const page = await ctx.puppeteer.page()
+      await page.setContent(html, { waitUntil: 'networkidle0' })
+      const element = await page.$('.container')
+      const screenshot = await element.screenshot({ type: 'png' })
+      await page.close()
+      return h.image(screenshot, 'image/png')
+    } catch (error) {
+      logger.error('图形渲染失败:', error)
+      return fallbackText
+    }
+  }
+
+  /**
+   * 渲染银行首页
+   */
+  async function renderBankHomePage(
+    username: string,
+    balance: { total: number; demand: number; fixed: number },
+    cash: number,
+    currency: string,
+    interestEnabled: boolean,
+    overdraft?: OverdraftStatus
+  ) {
+    const commands = [
+      { icon: '💰', name: 'bank.bal', desc: '查询存款余额' },
+      { icon: '📥', name: 'bank.in', desc: '存入现金' },
+      { icon: '📤', name: 'bank.out', desc: '取出现金' },
+      { icon: '💱', name: 'bank.transfer', desc: '向他人转账' },
+      { icon: '🧾', name: 'bank.history', desc: '查询交易流水' }
+    ]
+
+    if (config.exchange?.enabled) {
+      commands.push({ icon: '🔄', name: 'bank.exchange', desc: '货币兑换' })
+    }
+
+    if (config.loan?.enabled) {
+      commands.push({ icon: '💳', name: 'bank.loan', desc: '贷款服务' })
+    }
+
+    if (config.overdraft?.enabled) {
+      commands.push({ icon: '🏧', name: 'bank.overdraft', desc: '活期透支' })
+    }
+
+    if (config.credit?.enabled) {
+      commands.push({ icon: '⭐', name: 'bank.credit', desc: '查询信用分' })
+    }
+    
+    if (interestEnabled) {
+      commands.push(
+        { icon: '🔒', name: 'bank.fixed', desc: '申请定期存款' },
+        { icon: '⚙️', name: 'bank.fixed.manage', desc: '管理定期存款' },
+        { icon: '📈', name: 'bank.rates', desc: '查询利率历史' }
+      )
+    }
+
+    // 已开通透支或仍有未还透支时展示透支信息
+    const showOverdraft = !!overdraft && (overdraft.enabled || overdraft.owed > 0)
+
+    const content = `
+      ${renderHeader('🏦', '欢迎使用银行', username)}
+      
+      <div class="grid">
+        ${renderGridItem('💵', '现金余额', cash, '可用于存款', 'cash')}
+        ${renderGridItem('🏦', '银行总资产', balance.total, `活期 ${balance.demand} + 定期 ${balance.fixed}`, 'bank')}
+      </div>
+      ${showOverdraft ? `
+      <div class="card">
+        ${renderInfoRow('已透支（含利息）', `${overdraft.owed.toLocaleString()} ${currency}`, overdraft.owed > 0 ? 'error' : '')}
+        ${renderInfoRow('剩余透支额度', `${overdraft.available.toLocaleString()} / ${overdraft.limit.toLocaleString()} ${currency}`, 'success')}
+      </div>` : ''}
+      
+      ${renderPromptBox('可用命令', '点击下方命令查看详情或直接输入使用', 'info')}
+      
+      ${renderCommandGrid(commands)}
+    `
+
+    const html = getBaseTemplate(content, 800, getTheme(config))
+    const overdraftText = showOverdraft ? `\n已透支（含利息）：${overdraft.owed} ${currency}，剩余透支额度：${overdraft.available} ${currency}` : ''
+    const fallback = `🏦 银行服务中心\n\n账户信息：\n现金：${cash} ${currency}\n银行总资产：${balance.total} ${currency}\n  - 活期：${balance.demand} ${currency}\n  - 定期：${balance.fixed} ${currency}${overdraftText}\n\n可用命令：\n${commands.map(c => `${c.icon} ${c.name} - ${c.desc}`).join('\n')}`
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染存款确认页面
+   */
+  async function renderDepositConfirmPage(
+    username: string,
+    amount: number,
+    currency: string,
+    cash: number
+  ) {
+    const content = `
+      ${renderHeader('💰', '存款确认', username)}
+      
+      ${renderConfirmDialog('请确认存款信息', [
+        { label: '存款金额', value: `${amount.toLocaleString()} ${currency}` },
+        { label: '存款类型', value: '活期存款' },
+        { label: '当前现金', value: `${cash.toLocaleString()} ${currency}` },
+        { label: '存款后现金', value: `${(cash - amount).toLocaleString()} ${currency}` }
+      ])}
+      
+      ${renderPromptBox('温馨提示', '存入后将自动转为活期存款，可随时取出', 'info')}
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = generateDepositConfirmMessage(amount, currency, cash)
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染取款确认页面
+   */
+  async function renderWithdrawConfirmPage(
+    username: string,
+    amount: number,
+    currency: string,
+    balance: number,
+    overdraw: number = 0
+  ) {
+    const items = [
+      { label: '取款金额', value: `${amount.toLocaleString()} ${currency}` },
+      { label: '取款来源', value: overdraw > 0 ? '活期存款 + 透支' : '活期存款' },
+      { label: '当前活期', value: `${balance.toLocaleString()} ${currency}` },
+      { label: '取款后活期', value: `${normalizeAmount(balance - amount + overdraw).toLocaleString()} ${currency}` }
+    ]
+    if (overdraw > 0) {
+      items.push({ label: '本次透支', value: `${overdraw.toLocaleString()} ${currency}` })
+    }
+
+    const content = `
+      ${renderHeader('💸', '取款确认', username)}
+      
+      ${renderConfirmDialog('请确认取款信息', items)}
+      
+      ${renderPromptBox('温馨提示', overdraw > 0
+        ? `透支部分按年利率 ${config.overdraft?.rate ?? 18}% 按日计息，之后存入的资金将优先偿还透支`
+        : '仅可从活期存款中取出，定期需到期后自动转活期', 'warning')}
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = generateWithdrawConfirmMessage(amount, currency, balance, overdraw)
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染转账确认页面
+   */
+  async function renderTransferConfirmPage(
+    username: string,
+    amount: number,
+    currency: string,
+    target: string,
+    demand: number
+  ) {
+    const content = `
+      ${renderHeader('💱', '转账确认', username)}
+      
+      ${renderConfirmDialog('请确认转账信息', [
+        { label: '收款人', value: target },
+        { label: '转账金额', value: `${amount.toLocaleString()} ${currency}` },
+        { label: '转出来源', value: '活期存款' },
+        { label: '当前活期', value: `${demand.toLocaleString()} ${currency}` },
+        { label: '转账后活期', value: `${(demand - amount).toLocaleString()} ${currency}` }
+      ])}
+      
+      ${renderPromptBox('温馨提示', '转账将直接存入对方活期账户，确认后无法撤回', 'warning')}
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = generateTransferConfirmMessage(amount, currency, target, demand)
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染银行余额信息为HTML图片
+   */
+  async function renderBankBalanceImage(
+    username: string,
+    balance: { total: number; demand: number; fixed: number },
+    currency: string,
+    demandRate: number = 0.25,
+    tierBreakdown: Array<{ from: number; to: number; portion: number; rate: number; interest: number }> = [],
+    accrued: number = 0,
+    overdraft?: OverdraftStatus
+  ) {
+    const demandPercent = balance.total > 0 ? (balance.demand / balance.total * 100).toFixed(1) : '0'
+    const fixedPercent = balance.total > 0 ? (balance.fixed / balance.total * 100).toFixed(1) : '0'
+    const demandModel = config.demandInterest?.model || 'compound'
+    const demandCycle = config.demandInterest?.cycle || 'day'
+    const rateDivisor = getRateDivisor(demandModel, demandCycle)
+    // 阶梯利率按当前余额折算为综合利率后计算年化收益
+    const effectiveRate = tierBreakdown.length
+      ? (balance.demand > 0 ? tierBreakdown.reduce((sum, tier) => sum + tier.interest, 0) / balance.demand * 100 : tierBreakdown[0].rate)
+      : demandRate
+    const apy = Number(calculateAPY(effectiveRate, demandModel, demandCycle).toFixed(2))
+    const rateLabel = `${tierBreakdown.length ? '阶梯利率' : `利率 ${demandRate}%`} · 年化收益 ${apy.toLocaleString()}%`
+    const { digits } = getPrecisionSettings(config, currency)
+    const tierInterest = (tier: { interest: number }) => Number((tier.interest / rateDivisor).toFixed(digits))
+    const showOverdraft = !!overdraft && (overdraft.enabled || overdraft.owed > 0)
+    const tierLabel = (tier: { from: number; to: number }) =>
+      tier.to === Infinity ? `${tier.from.toLocaleString()} 以上` : `${tier.from.toLocaleString()} ~ ${tier.to.toLocaleString()}`
+
+    const content = `
+      ${renderHeader('🏦', '银行资产', username)}
+      ${renderBalanceCard('总资产', balance.total, getCurrencyDisplay(config, currency))}
+      <div class="grid">
+        ${renderGridItem('💵', '可用资产（活期）', balance.demand, `${rateLabel} | 占比 ${demandPercent}%`, 'demand')}
+        ${renderGridItem('🔒', '不可用资产（定期）', balance.fixed, `占比 ${fixedPercent}%`, 'fixed')}
+      </div>
+      <div class="card">
+        ${renderInfoRow('活期计息', `${tierBreakdown.length ? '阶梯利率' : describeRate(demandRate, demandModel, demandCycle)} · ${INTEREST_MODEL_LABELS[demandModel]}`)}
+        ${renderInfoRow('年化收益率（APY）', `${apy.toLocaleString()}%`, 'success')}
+        ${renderInfoRow('已计提未发放利息', `${accrued.toLocaleString()} ${currency}`)}
+      </div>
+      ${tierBreakdown.length ? `
+      <div class="card">
+        ${tierBreakdown.map(tier => renderInfoRow(
+          `${tierLabel(tier)}（${tier.rate}%）`,
+          `${tier.portion.toLocaleString()} → 每期 ${tierInterest(tier).toLocaleString()} ${currency}`
+        )).join('')}
+      </div>` : ''}
+      ${showOverdraft ? `
+      <div class="card ${overdraft.owed > 0 ? 'warning' : ''}">
+        ${renderInfoRow('透支额度', `${overdraft.limit.toLocaleString()} ${currency}${overdraft.enabled ? '' : '（未开通）'}`)}
+        ${renderInfoRow('已透支本金', `${overdraft.used.toLocaleString()} ${currency}`, overdraft.used > 0 ? 'error' : '')}
+        ${renderInfoRow('未还透支利息', `${overdraft.interest.toLocaleString()} ${currency}`, overdraft.interest > 0 ? 'error' : '')}
+        ${renderInfoRow('剩余可透支', `${overdraft.available.toLocaleString()} ${currency}`, 'success')}
+        ${renderInfoRow('透支年利率', `${config.overdraft?.rate ?? 18}%（按日计息）`)}
+      </div>` : ''}
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    let fallback = `您的银行资产：\n总资产：${balance.total} ${currency}\n可用资产（活期）：${balance.demand} ${currency} (${rateLabel})\n不可用资产（定期）：${balance.fixed} ${currency}\n已计提未发放利息：${accrued} ${currency}（下个结算日发放）`
+    if (tierBreakdown.length) {
+      fallback += `\n活期阶梯计息明细：\n` + tierBreakdown
+        .map(tier => `${tierLabel(tier)}（${tier.rate}%）：${tier.portion} ${currency}，每期约 ${tierInterest(tier)} ${currency}`)
+        .join('\n')
+    }
+    if (showOverdraft) {
+      fallback += `\n透支额度：${overdraft.limit} ${currency}，已透支本金：${overdraft.used} ${currency}，未还透支利息：${overdraft.interest} ${currency}，剩余可透支：${overdraft.available} ${currency}`
+    }
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染存款成功页面
+   */
+  async function renderDepositSuccessImage(
+    username: string,
+    amount: number,
+    currency: string,
+    newCash: number,
+    newBalance: { total: number; demand: number; fixed: number }
+  ) {
+    const content = `
+      ${renderHeader('💰', '存款成功', username)}
+      ${renderBalanceCard('存入金额', amount, getCurrencyDisplay(config, currency))}
+      <div class="card success">
+        ${renderInfoRow('存款类型', '活期存款')}
+        ${renderInfoRow('当前现金', `${newCash.toLocaleString()} ${currency}`)}
+        ${renderInfoRow('银行总资产', `${newBalance.total.toLocaleString()} ${currency}`, 'success')}
+      </div>
+      <div class="grid">
+        ${renderGridItem('💵', '活期资产', newBalance.demand, '可随时取出', 'demand')}
+        ${renderGridItem('🔒', '定期资产', newBalance.fixed, '到期自动转活期', 'fixed')}
+      </div>
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = `成功存入 ${amount} ${currency}（活期）！\n现金余额：${newCash} ${currency}\n银行总资产：${newBalance.total} ${currency}`
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染取款成功页面
+   */
+  async function renderWithdrawSuccessImage(
+    username: string,
+    amount: number,
+    currency: string,
+    newCash: number,
+    newBalance: { total: number; demand: number; fixed: number }
+  ) {
+    const content = `
+      ${renderHeader('💸', '取款成功', username)}
+      ${renderBalanceCard('取出金额', amount, getCurrencyDisplay(config, currency))}
+      <div class="card success">
+        ${renderInfoRow('取款来源', '活期存款')}
+        ${renderInfoRow('当前现金', `${newCash.toLocaleString()} ${currency}`, 'success')}
+        ${renderInfoRow('银行总资产', `${newBalance.total.toLocaleString()} ${currency}`)}
+      </div>
+      <div class="grid">
+        ${renderGridItem('💰', '现金余额', newCash, '可用于消费', 'cash')}
+        ${renderGridItem('🏦', '银行余额', newBalance.total, '继续生息', 'bank')}
+      </div>
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = `成功取出 ${amount} ${currency}！\n现金余额：${newCash} ${currency}\n银行总资产：${newBalance.total} ${currency}`
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染转账回单页面
+   */
+  async function renderTransferReceiptImage(
+    username: string,
+    amount: number,
+    currency: string,
+    target: string,
+    newBalance: { total: number; demand: number; fixed: number }
+  ) {
+    const time = formatDateTime(new Date())
+    const content = `
+      ${renderHeader('🧾', '转账回单', username)}
+      ${renderBalanceCard('转账金额', amount, getCurrencyDisplay(config, currency))}
+      <div class="card success">
+        ${renderInfoRow('收款人', target, 'success')}
+        ${renderInfoRow('转出来源', '活期存款')}
+        ${renderInfoRow('到账方式', '对方活期账户')}
+        ${renderInfoRow('交易时间', time)}
+      </div>
+      <div class="grid">
+        ${renderGridItem('💵', '剩余活期', newBalance.demand, '可随时取出', 'demand')}
+        ${renderGridItem('🏦', '银行总资产', newBalance.total, `活期 ${newBalance.demand} + 定期 ${newBalance.fixed}`, 'bank')}
+      </div>
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = `转账成功！\n收款人：${target}\n金额：${amount} ${currency}\n时间：${time}\n剩余活期：${newBalance.demand} ${currency}`
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染兑换确认页面
+   */
+  async function renderExchangeConfirmPage(
+    username: string,
+    amount: number,
+    from: string,
+    to: string,
+    quote: { rate: number; gross: number; fee: number; net: number },
+    demand: number
+  ) {
+    const fromName = getCurrencyDisplay(config, from).name
+    const toName = getCurrencyDisplay(config, to).name
+    const content = `
+      ${renderHeader('🔄', '兑换确认', username)}
+      
+      ${renderConfirmDialog('请确认兑换信息', [
+        { label: '兑换金额', value: `${amount.toLocaleString()} ${fromName}` },
+        { label: '当前汇率', value: `1 ${fromName} = ${quote.rate.toLocaleString()} ${toName}` },
+        { label: '兑换所得', value: `${quote.gross.toLocaleString()} ${toName}` },
+        { label: `点差（${config.exchange?.spread ?? 1}%）`, value: `-${quote.fee.toLocaleString()} ${toName}` },
+        { label: '实际到账', value: `${quote.net.toLocaleString()} ${toName}` },
+        { label: '兑换后活期', value: `${normalizeAmount(demand - amount).toLocaleString()} ${fromName}` }
+      ])}
+      
+      ${renderPromptBox('温馨提示', '兑换从活期扣款并存入目标货币活期，按确认时的最新汇率成交', 'warning')}
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = generateExchangeConfirmMessage(amount, from, to, quote)
+
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染兑换回单
+   */
+  async function renderExchangeReceiptImage(
+    username: string,
+    amount: number,
+    from: string,
+    to: string,
+    result: { received?: number; fee?: number; rate?: number; newBalance?: { total: number; demand: number; fixed: number }; targetBalance?: { total: number; demand: number; fixed: number } }
+  ) {
+    const time = formatDateTime(new Date())
+    const fromName = getCurrencyDisplay(config, from).name
+    const toName = getCurrencyDisplay(config, to).name
+    const content = `
+      ${renderHeader('🧾', '兑换回单', username)}
+      ${renderBalanceCard('实际到账', result.received, getCurrencyDisplay(config, to))}
+      <div class="card success">
+        ${renderInfoRow('兑换金额', `${amount.toLocaleString()} ${fromName}`)}
+        ${renderInfoRow('成交汇率', `1 ${fromName} = ${result.rate.toLocaleString()} ${toName}`, 'success')}
+        ${renderInfoRow('点差', `${result.fee.toLocaleString()} ${toName}`)}
+        ${renderInfoRow('交易时间', time)}
+      </div>
+      <div class="grid">
+        ${renderGridItem('💵', `${fromName}活期`, result.newBalance.demand, '兑换后余额', 'demand')}
+        ${renderGridItem('💱', `${toName}活期`, result.targetBalance.demand, '兑换后余额', 'bank')}
+      </div>
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = `兑换成功！\n兑换：${amount} ${from} → ${result.received} ${to}\n汇率：1 ${from} = ${result.rate} ${to}\n点差：${result.fee} ${to}\n时间：${time}\n${from} 活期：${result.newBalance.demand}，${to} 活期：${result.targetBalance.demand}`
+
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染定期存款列表
+   */
+  async function renderFixedDepositListImage(
+    username: string,
+    records: any[],
+    currency: string,
+    tip: string = '请输入编号选择要管理的定期存款，输入 0 退出'
+  ) {
+    let listHtml = ''
+    records.forEach((record, index) => {
+      const cycleText = record.cycle === 'day' ? '日' : record.cycle === 'week' ? '周' : '月'
+      const statusText = record.pledged ? '已质押' : record.extendRequested ? '已申请延期' : '未延期'
+      const statusClass = record.pledged || record.extendRequested ? 'pending' : 'active'
+      const dueDate = formatDate(record.maturityDate || record.settlementDate)
+      const nextInterest = record.maturityDate && new Date(record.settlementDate) < new Date(record.maturityDate)
+        ? ` · 下次计息：${formatDate(record.settlementDate)}`
+        : ''
+      
+      listHtml += `
+        <div class="list-item">
+          <div class="list-left">
+            <div class="list-title">${index + 1}. ${record.planName ? `${record.planName} ` : ''}${record.rate}% / ${cycleText}</div>
+            <div class="list-subtitle">到期日：${dueDate}${nextInterest}</div>
+          </div>
+          <div class="list-right">
+            <div class="list-amount">${record.amount.toLocaleString()} ${currency}</div>
+            <span class="list-status ${statusClass}">${statusText}</span>
+          </div>
+        </div>
+      `
+    })
+
+    const totalAmount = records.reduce((sum, r) => sum + r.amount, 0)
+
+    const content = `
+      ${renderHeader('📋', '定期存款管理', username)}
+      ${renderBalanceCard('定期总额', totalAmount, getCurrencyDisplay(config, currency))}
+      ${renderPromptBox('管理说明', tip, 'info')}
+      <div style="margin-bottom: 20px;">
+        ${listHtml}
+      </div>
+    `
+
+    const html = getBaseTemplate(content, 900, getTheme(config))
+    const fallback = '您的定期存款：\n' + records.map((r, i) => 
+      `${i+1}. ${r.planName ? `${r.planName} ` : ''}${r.rate}%/${r.cycle} - ${r.amount} ${currency} - 到期日 ${formatDate(r.maturityDate || r.settlementDate)}${r.pledged ? '（已质押）' : ''}`
+    ).join('\n')
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染定期申请方案选择页面
+   */
+  async function renderFixedPlanSelectionPage(
+    username: string,
+    plans: FixedPlanConfig[],
+    cash: number,
+    demand: number,
+    currency: string
+  ) {
+    const planItems = plans.map((plan, index) => {
+      return `
+        <div class="list-item">
+          <div class="list-left">
+            <div class="list-title">${index + 1}. ${plan.name || '未命名'}</div>
+            <div class="list-subtitle">利率：${describeRate(plan.rate || 0, plan.model, plan.cycle)} · 每${CYCLE_LABELS[plan.cycle]}计息 · ${describePlanTerms(plan)}</div>
+          </div>
+          <div class="list-right">
+            <span class="list-status active">可选</span>
+          </div>
+        </div>
+      `
+    }).join('')
+
+    const content = `
+      ${renderHeader('🔒', '申请定期存款', username)}
+      
+      <div class="grid">
+        ${renderGridItem('💵', '可用现金', cash, '优先扣除', 'cash')}
+        ${renderGridItem('🏦', '活期存款', demand, '现金不足时扣除', 'demand')}
+      </div>
+      
+      ${renderPromptBox('方案选择', '请输入方案编号，或输入 0 取消', 'info')}
+      
+      <div style="margin-bottom: 20px;">
+        ${planItems}
+      </div>
+    `
+
+    const html = getBaseTemplate(content, 900, getTheme(config))
+    const fallback = '可选方案：\n' + plans.map((p, i) => 
+      `${i+1}. ${p.name} - 利率：${describeRate(p.rate || 0, p.model, p.cycle)} - 每${CYCLE_LABELS[p.cycle]}计息 - ${describePlanTerms(p)}`
+    ).join('\n')
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染定期存款成功页面
+   */
+  async function renderFixedDepositSuccessImage(
+    username: string,
+    amount: number,
+    currency: string,
+    planName: string,
+    rate: number,
+    cycle: 'day' | 'week' | 'month',
+    maturityDate: Date,
+    fromCash: number,
+    fromDemand: number,
+    newCash: number,
+    newBalance: { total: number; demand: number; fixed: number }
+  ) {
+    const cycleText = cycle === 'day' ? '日' : cycle === 'week' ? '周' : '月'
+    const dueDate = maturityDate.toLocaleDateString('zh-CN', { timeZone: dateSettings.timezone || undefined, year: 'numeric', month: '2-digit', day: '2-digit' })
+
+    const content = `
+      ${renderHeader('🔒', '定期存款成功', username)}
+      ${renderBalanceCard('存入金额', amount, getCurrencyDisplay(config, currency))}
+      
+      <div class="card success">
+        ${renderInfoRow('存款方案', `${planName} (${rate}% / ${cycleText})`, 'success')}
+        ${renderInfoRow('资金来源', `现金 ${fromCash.toLocaleString()} + 活期 ${fromDemand.toLocaleString()}`)}
+        ${renderInfoRow('到期日期', dueDate)}
+      </div>
+      
+      <div class="grid">
+        ${renderGridItem('💵', '当前现金', newCash, '可用于消费', 'cash')}
+        ${renderGridItem('🏦', '银行总资产', newBalance.total, `活期 ${newBalance.demand} + 定期 ${newBalance.fixed}`, 'bank')}
+      </div>
+      
+      ${renderPromptBox('温馨提示', '定期存款到期后将自动转为活期，或可在管理中申请延期续存', 'info')}
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = `成功申请定期存款！\n方案：${planName}\n金额：${amount} ${currency}\n利率：${rate}% / ${cycleText}\n来源：现金 ${fromCash} + 活期 ${fromDemand}\n到期日：${dueDate}\n银行总资产：${newBalance.total} ${currency}`
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染延期方案选择页面
+   */
+  async function renderExtensionPlanSelectionPage(
+    username: string,
+    plans: Array<{ name?: string; rate?: number; cycle?: 'day' | 'week' | 'month' }>,
+    currentAmount: number,
+    currency: string
+  ) {
+    const planItems = plans.map((plan, index) => {
+      const cycleText = plan.cycle === 'day' ? '日' : plan.cycle === 'week' ? '周' : '月'
+      return `
+        <div class="list-item">
+          <div class="list-left">
+            <div class="list-title">${index + 1}. ${plan.name || '未命名'}</div>
+            <div class="list-subtitle">利率 ${plan.rate || 0}% / 周期 ${cycleText}</div>
+          </div>
+          <div class="list-right">
+            <span class="list-status active">可选</span>
+          </div>
+        </div>
+      `
+    }).join('')
+
+    const content = `
+      ${renderHeader('⚙️', '申请延期续存', username)}
+      ${renderBalanceCard('当前定期金额', currentAmount, getCurrencyDisplay(config, currency))}
+      ${renderPromptBox('延期说明', '到期后将按选择的新方案继续存款，本金+利息自动续存', 'info')}
+      <div style="margin-bottom: 20px;">
+        ${planItems}
+      </div>
+      ${renderPromptBox('操作提示', '请输入方案编号，或输入 0 返回', 'warning')}
+    `
+
+    const html = getBaseTemplate(content, 800, getTheme(config))
+    const fallback = '可选续期方案：\n' + plans.map((p, i) => 
+      `${i+1}. ${p.name} - ${p.rate}% / ${p.cycle === 'day' ? '日' : p.cycle === 'week' ? '周' : '月'}`
+    ).join('\n')
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染取消延期确认页面
+   */
+  async function renderCancelExtensionPage(
+    username: string,
+    amount: number,
+    currency: string,
+    currentPlan: string
+  ) {
+    const content = `
+      ${renderHeader('⚠️', '取消延期申请', username)}
+      ${renderBalanceCard('定期金额', amount, getCurrencyDisplay(config, currency))}
+      
+      ${renderConfirmDialog('请确认取消延期', [
+        { label: '当前延期方案', value: currentPlan },
+        { label: '取消后处理', value: '到期自动转为活期' },
+        { label: '是否确认取消', value: '请输入 yes 或 y 确认' }
+      ])}
+      
+      ${renderPromptBox('注意', '取消后，定期存款到期将自动转为活期存款', 'warning')}
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = `当前已申请延期至：${currentPlan}\n取消后到期将自动转为活期\n确认取消请输入 yes 或 y`
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染提前支取预览页面（支取金额、扣回利息、违约金、实际到账）
+   */
+  async function renderEarlyWithdrawPreviewPage(
+    username: string,
+    record: MonetaryBankInterest,
+    amount: number,
+    penaltyRate: number,
+    currency: string
+  ) {
+    const { forfeited, penalty, net } = calculateEarlyWithdrawal(config, record, amount)
+    const pendingInterest = roundInterest(
+      calculateInterestUnits(amount, record.rate, [], getRateDivisor(record.interestModel, record.cycle)),
+      undefined,
+      getPrecisionSettings(config, currency)
+    ).interest
+    const dueDate = formatDate(record.maturityDate || record.settlementDate)
+    const remaining = normalizeAmount(record.amount - amount)
+
+    const content = `
+      ${renderHeader('⏏️', '提前支取确认', username)}
+      ${renderBalanceCard('实际到账', net, getCurrencyDisplay(config, currency))}
+      
+      ${renderConfirmDialog('请确认提前支取信息', [
+        { label: '支取金额', value: `${amount.toLocaleString()} ${currency}` },
+        { label: '扣回本存期已得利息', value: `-${forfeited.toLocaleString()} ${currency}` },
+        { label: `违约金（${penaltyRate}%）`, value: `-${penalty.toLocaleString()} ${currency}` },
+        { label: '实际到账（现金）', value: `${net.toLocaleString()} ${currency}` },
+        { label: '放弃的本周期利息', value: `约 ${pendingInterest.toLocaleString()} ${currency}` },
+        { label: '剩余定期', value: remaining > 0 ? `${remaining.toLocaleString()} ${currency}（到期日 ${dueDate}）` : '无' }
+      ])}
+      
+      ${renderPromptBox('注意', '提前支取将按支取比例扣回本存期内已发放的利息，并放弃全部未到期利息，且确认后无法撤回', 'warning')}
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = `提前支取预览：\n支取金额：${amount} ${currency}\n扣回本存期已得利息：${forfeited} ${currency}\n违约金（${penaltyRate}%）：${penalty} ${currency}\n实际到账（现金）：${net} ${currency}\n放弃的本周期利息：约 ${pendingInterest} ${currency}\n剩余定期：${remaining} ${currency}\n确认请回复 yes 或 y，取消请回复其他内容。`
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染提前支取成功页面
+   */
+  async function renderEarlyWithdrawSuccessPage(
+    username: string,
+    result: { principal: number; forfeited: number; penalty: number; net: number; remaining: number; newCash: number },
+    currency: string
+  ) {
+    const content = `
+      ${renderHeader('✅', '提前支取成功', username)}
+      ${renderBalanceCard('实际到账', result.net, getCurrencyDisplay(config, currency))}
       
-      const uid = session.user.id
-      const currency = options?.currency || config.defaultCurrency || 'coin'
+      <div class="card success">
+        ${renderInfoRow('支取金额', `${result.principal.toLocaleString()} ${currency}`)}
+        ${renderInfoRow('扣回利息', `${result.forfeited.toLocaleString()} ${currency}`, 'error')}
+        ${renderInfoRow('违约金', `${result.penalty.toLocaleString()} ${currency}`, 'error')}
+        ${renderInfoRow('剩余定期', `${result.remaining.toLocaleString()} ${currency}`)}
+      </div>
       
-      try {
-        // 查询用户的定期记录
-        const fixedRecords = await ctx.database
-          .select('monetary_bank_int')
-          .where({ uid, currency, type: 'fixed' })
-          .orderBy('settlementDate', 'asc')
-          .execute()
-        
-        if (fixedRecords.length === 0) {
-          return '您没有定期存款记录。'
-        }
-        
-        // 使用图形化界面显示列表
-        await session.send(await renderFixedDepositListImage(
-          session.username || session.userId,
-          fixedRecords,
-          currency
-        ))
-        await session.send('请输入编号管理，或输入 0 退出：')
-        
-        const input = await session.prompt(30000)
-        if (!input) return '操作超时。'
+      <div class="grid">
+        ${renderGridItem('💵', '当前现金', result.newCash, '可用于消费', 'cash')}
+        ${renderGridItem('🔒', '剩余定期', result.remaining, result.remaining > 0 ? '按原方案继续存放' : '该笔定期已结清', 'fixed')}
+      </div>
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = `提前支取成功！\n支取金额：${result.principal} ${currency}\n扣回利息：${result.forfeited} ${currency}\n违约金：${result.penalty} ${currency}\n到账现金：${result.net} ${currency}\n剩余定期：${result.remaining} ${currency}\n当前现金：${result.newCash} ${currency}`
+    
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染延期操作成功页面
+   */
+  async function renderExtensionSuccessPage(
+    username: string,
+    action: 'apply' | 'cancel',
+    amount: number,
+    currency: string,
+    planName?: string,
+    rate?: number,
+    cycle?: 'day' | 'week' | 'month'
+  ) {
+    if (action === 'cancel') {
+      const content = `
+        ${renderHeader('✅', '取消成功', username)}
+        ${renderBalanceCard('定期金额', amount, getCurrencyDisplay(config, currency))}
         
-        const recordIndex = parseInt(input.trim()) - 1
-        if (recordIndex < 0) return '已退出。'
-        if (recordIndex >= fixedRecords.length) return '无效的编号。'
+        <div class="card success">
+          ${renderInfoRow('操作结果', '已取消延期申请', 'success')}
+          ${renderInfoRow('到期处理', '自动转为活期存款')}
+        </div>
         
-        const selectedRecord = fixedRecords[recordIndex]
+        ${renderPromptBox('提示', '到期后本金+利息将转入活期账户，可随时取出', 'info')}
+      `
+
+      const html = getBaseTemplate(content, 520, getTheme(config))
+      const fallback = `已取消延期申请\n定期金额：${amount} ${currency}\n到期后将自动转为活期`
+      
+      return await renderToImage(html, fallback)
+    } else {
+      const cycleText = cycle === 'day' ? '日' : cycle === 'week' ? '周' : '月'
+      const content = `
+        ${renderHeader('✅', '延期申请成功', username)}
+        ${renderBalanceCard('定期金额', amount, getCurrencyDisplay(config, currency))}
         
-        // 显示操作选项
-        if (selectedRecord.extendRequested) {
-          // 图形化取消延期确认页面
-          const cycleText = selectedRecord.nextCycle === 'day' ? '日' : selectedRecord.nextCycle === 'week' ? '周' : '月'
-          await session.send(await renderCancelExtensionPage(
-            session.username || session.userId,
-            selectedRecord.amount,
-            currency,
-            `${selectedRecord.nextRate}% / ${cycleText}`
-          ))
-          
-          const action = await session.prompt(30000)
-          if (!action) return '操作超时。'
-          if (action.trim().toLowerCase() !== 'yes' && action.trim().toLowerCase() !== 'y') {
-            return '已取消操作。'
-          }
-          
-          await ctx.database.set('monetary_bank_int', { id: selectedRecord.id }, {
-            extendRequested: false,
-            nextRate: null,
-            nextCycle: null
-          })
-          
-          return await renderExtensionSuccessPage(
-            session.username || session.userId,
-            'cancel',
-            selectedRecord.amount,
-            currency
-          )
-        } else {
-          // 图形化延期方案选择
-          const plans = config.fixedInterest || []
-          await session.send(await renderExtensionPlanSelectionPage(
-            session.username || session.userId,
-            plans,
-            selectedRecord.amount,
-            currency
-          ))
-          
-          const planInput = await session.prompt(30000)
-          if (!planInput) return '操作超时。'
-          
-          const planIndex = parseInt(planInput.trim()) - 1
-          if (planIndex < 0) return '已返回。'
-          if (planIndex >= plans.length) return '无效的方案编号。'
-          
-          const newPlan = plans[planIndex]
-          
-          await ctx.database.set('monetary_bank_int', { id: selectedRecord.id }, {
-            extendRequested: true,
-            nextRate: newPlan.rate,
-            nextCycle: newPlan.cycle as any
-          })
-          
-          return await renderExtensionSuccessPage(
-            session.username || session.userId,
-            'apply',
-            selectedRecord.amount,
-            currency,
-            newPlan.name,
-            newPlan.rate,
-            newPlan.cycle
-          )
-        }
+        <div class="card success">
+          ${renderInfoRow('延期方案', `${planName} (${rate}% / ${cycleText})`, 'success')}
+          ${renderInfoRow('到期处理', '按新方案自动续存')}
+        </div>
         
-      } catch (error) {
-        logger.error('管理定期失败:', error)
-        return '操作失败，请稍后再试。'
-      }
-    })
+        ${renderPromptBox('提示', '到期后本金+利息将按新方案继续存入定期', 'info')}
+      `
 
-  // 启动利息结算定时任务
-  if (config.enableInterest) {
-    await scheduleInterestSettlement(ctx, config)
+      const html = getBaseTemplate(content, 520, getTheme(config))
+      const fallback = `延期申请成功！\n方案：${planName}\n利率：${rate}% / ${cycleText}\n定期金额：${amount} ${currency}`
+      
+      return await renderToImage(html, fallback)
+    }
   }
 
-  // --- 图形渲染函数 ---
-
   /**
-   * 通用图片渲染函数
+   * 渲染交易流水页面
    */
-  async function renderToImage(html: string, fallbackText: string) {
-    if (!ctx.puppeteer) {
-      return fallbackText
-    }
+  async function renderTransactionHistoryImage(
+    username: string,
+    records: MonetaryBankTransaction[],
+    page: number,
+    totalPages: number,
+    total: number,
+    filter: { currency?: string; type?: TransactionType; from?: Date; to?: Date }
+  ) {
+    const formatTime = (date: Date) => formatDateTime(date)
+    const formatAmount = (record: MonetaryBankTransaction) =>
+      `${TRANSACTION_TYPES[record.type]?.sign || ''}${record.amount.toLocaleString()} ${record.currency}`
 
-    try {
-      const page = await ctx.puppeteer.page()
-      await page.setContent(html, { waitUntil: 'networkidle0' })
-      const element = await page.$('.container')
-      const screenshot = await element.screenshot({ type: 'png' })
-      await page.close()
-      return h.image(screenshot, 'image/png')
-    } catch (error) {
-      logger.error('图形渲染失败:', error)
-      return fallbackText
-    }
+    const listHtml = records.map(record => {
+      const meta = TRANSACTION_TYPES[record.type]
+      const statusClass = meta?.sign === '-' ? 'pending' : 'active'
+      return `
+        <div class="list-item">
+          <div class="list-left">
+            <div class="list-title">${meta?.label || record.type}</div>
+            <div class="list-subtitle">${formatTime(record.createdAt)}${record.note ? ` · ${record.note}` : ''}</div>
+          </div>
+          <div class="list-right">
+            <div class="list-amount">${formatAmount(record)}</div>
+            <span class="list-status ${statusClass}">#${record.id}</span>
+          </div>
+        </div>
+      `
+    }).join('')
+
+    // 过滤条件描述
+    const filterParts: string[] = []
+    if (filter.currency) filterParts.push(`货币 ${filter.currency}`)
+    if (filter.type) filterParts.push(`类型 ${TRANSACTION_TYPES[filter.type].label}`)
+    if (filter.from) filterParts.push(`自 ${formatDate(filter.from)}`)
+    if (filter.to) filterParts.push(`至 ${formatDate(filter.to)}`)
+    const filterText = filterParts.length ? filterParts.join('，') : '全部流水'
+    const pageHint = page < totalPages ? `，使用 bank.history ${page + 1} 查看下一页` : ''
+
+    const content = `
+      ${renderHeader('🧾', '交易流水', username)}
+      ${renderPromptBox('查询条件', `${filterText} · 共 ${total} 条 · 第 ${page}/${totalPages} 页${pageHint}`, 'info')}
+      <div style="margin-bottom: 20px;">
+        ${listHtml}
+      </div>
+    `
+
+    const html = getBaseTemplate(content, 800, getTheme(config))
+    const fallback = `交易流水（${filterText}，第 ${page}/${totalPages} 页，共 ${total} 条）：\n` + records.map(r =>
+      `#${r.id} ${formatTime(r.createdAt)} ${TRANSACTION_TYPES[r.type]?.label || r.type} ${formatAmount(r)}${r.note ? `（${r.note}）` : ''}`
+    ).join('\n') + (pageHint ? `\n${pageHint.slice(1)}` : '')
+
+    return await renderToImage(html, fallback)
   }
 
   /**
-   * 渲染银行首页
+   * 渲染利率历史页面
    */
-  async function renderBankHomePage(
+  async function renderRateHistoryImage(
     username: string,
-    balance: { total: number; demand: number; fixed: number },
-    cash: number,
-    currency: string,
-    interestEnabled: boolean
+    records: MonetaryBankRate[],
+    page: number,
+    totalPages: number,
+    total: number
   ) {
-    const commands = [
-      { icon: '💰', name: 'bank.bal', desc: '查询存款余额' },
-      { icon: '📥', name: 'bank.in', desc: '存入现金' },
-      { icon: '📤', name: 'bank.out', desc: '取出现金' }
-    ]
-    
-    if (interestEnabled) {
-      commands.push(
-        { icon: '🔒', name: 'bank.fixed', desc: '申请定期存款' },
-        { icon: '⚙️', name: 'bank.fixed.manage', desc: '管理定期存款' }
-      )
+    const describeTarget = (record: MonetaryBankRate) => (record.currency ? `${getCurrencyDisplay(config, record.currency).name} · ` : '')
+      + (record.kind === 'demand' ? '活期' : `定期 · ${record.planName}`)
+    const describeTiers = (record: MonetaryBankRate) => {
+      const tiers: InterestTier[] = JSON.parse(record.tiers || '[]')
+      return tiers.length
+        ? `阶梯：${tiers.map(t => `${t.upTo ? `≤${t.upTo.toLocaleString()}` : '超出部分'} ${t.rate}%`).join('，')}`
+        : ''
     }
 
+    const listHtml = records.map(record => {
+      const tiersText = describeTiers(record)
+      return `
+        <div class="list-item">
+          <div class="list-left">
+            <div class="list-title">${describeTarget(record)}</div>
+            <div class="list-subtitle">${formatDateTime(record.effectiveAt)} 起 · ${INTEREST_MODEL_LABELS[record.model] || record.model}${tiersText ? ` · ${tiersText}` : ''}</div>
+          </div>
+          <div class="list-right">
+            <div class="list-amount">${describeRate(record.rate, record.model, record.cycle)}</div>
+          </div>
+        </div>
+      `
+    }).join('')
+
+    const pageHint = page < totalPages ? `，使用 bank.rates ${page + 1} 查看下一页` : ''
+    const policyText = (config.demandInterest?.ratePolicy || 'follow') === 'follow'
+      ? '活期利率调整后，已有存款从下个结算周期起按新利率计息'
+      : '活期存款沿用存入时的利率'
+
     const content = `
-      ${renderHeader('🏦', '欢迎使用银行', username)}
-      
-      <div class="grid">
-        ${renderGridItem('💵', '现金余额', cash, '可用于存款', 'cash')}
-        ${renderGridItem('🏦', '银行总资产', balance.total, `活期 ${balance.demand} + 定期 ${balance.fixed}`, 'bank')}
+      ${renderHeader('📈', '利率历史', username)}
+      ${renderPromptBox('说明', `${policyText}；定期存款利率在存期内保持不变 · 共 ${total} 条 · 第 ${page}/${totalPages} 页${pageHint}`, 'info')}
+      <div style="margin-bottom: 20px;">
+        ${listHtml}
       </div>
-      
-      ${renderPromptBox('可用命令', '点击下方命令查看详情或直接输入使用', 'info')}
-      
-      ${renderCommandGrid(commands)}
     `
 
     const html = getBaseTemplate(content, 800, getTheme(config))
-    const fallback = `🏦 银行服务中心\n\n账户信息：\n现金：${cash} ${currency}\n银行总资产：${balance.total} ${currency}\n  - 活期：${balance.demand} ${currency}\n  - 定期：${balance.fixed} ${currency}\n\n可用命令：\n${commands.map(c => `${c.icon} ${c.name} - ${c.desc}`).join('\n')}`
-    
+    const fallback = `利率历史（第 ${page}/${totalPages} 页，共 ${total} 条）：\n` + records.map(r => {
+      const tiersText = describeTiers(r)
+      return `${formatDateTime(r.effectiveAt)} ${describeTarget(r)} ${describeRate(r.rate, r.model, r.cycle)}${tiersText ? `（${tiersText}）` : ''}`
+    }).join('\n') + `\n${policyText}。` + (pageHint ? `\n${pageHint.slice(1)}` : '')
+
     return await renderToImage(html, fallback)
   }
 
   /**
-   * 渲染存款确认页面
+   * 渲染贷款产品与可贷额度页面
    */
-  async function renderDepositConfirmPage(
+  async function renderLoanProductsImage(
     username: string,
-    amount: number,
     currency: string,
-    cash: number
+    products: LoanProductConfig[],
+    quotas: Array<{ limit: number; used: number; available: number }>
   ) {
+    const currencyName = getCurrencyDisplay(config, currency).name
+    const describeProduct = (product: LoanProductConfig) =>
+      `年利率 ${product.rate}% · 期限 ${product.term} 天${product.overdueRate ? ` · 逾期加收 ${product.overdueRate}%` : ''}`
+
+    const listHtml = products.map((product, index) => `
+      <div class="list-item">
+        <div class="list-left">
+          <div class="list-title">${index + 1}. ${product.name}</div>
+          <div class="list-subtitle">${describeProduct(product)} · 额度 ${quotas[index].limit.toLocaleString()}</div>
+        </div>
+        <div class="list-right">
+          <div class="list-amount">${quotas[index].available.toLocaleString()} ${currencyName}</div>
+          <span class="list-status active">可贷</span>
+        </div>
+      </div>
+    `).join('')
+
+    const used = quotas[0].used
+    const maxAvailable = Math.max(...quotas.map(quota => quota.available))
     const content = `
-      ${renderHeader('💰', '存款确认', username)}
-      
-      ${renderConfirmDialog('请确认存款信息', [
-        { label: '存款金额', value: `${amount.toLocaleString()} ${currency}` },
-        { label: '存款类型', value: '活期存款' },
-        { label: '当前现金', value: `${cash.toLocaleString()} ${currency}` },
-        { label: '存款后现金', value: `${(cash - amount).toLocaleString()} ${currency}` }
-      ])}
-      
-      ${renderPromptBox('温馨提示', '存入后将自动转为活期存款，可随时取出', 'info')}
+      ${renderHeader('💳', '贷款服务', username)}
+      <div class="grid">
+        ${renderGridItem('📊', '最高可贷', maxAvailable, '额度按累计净存入计算', 'bank')}
+        ${renderGridItem('💳', '已借未还本金', used, '还款后恢复额度', 'fixed')}
+      </div>
+      <div style="margin-bottom: 20px;">
+        ${listHtml}
+      </div>
+      ${renderPromptBox('申请方式', `使用 bank.loan.apply &lt;序号&gt; &lt;金额&gt; 申请，借款转入现金；逾期未还将从活期自动扣款${config.loan?.pledgeLtv && config.enableInterest ? `。持有定期存款时也可使用 bank.loan.pledge 质押借款（质押率 ${config.loan.pledgeLtv}%）` : ''}`, 'info')}
     `
 
-    const html = getBaseTemplate(content, 520, getTheme(config))
-    const fallback = generateDepositConfirmMessage(amount, currency, cash)
-    
+    const html = getBaseTemplate(content, 800, getTheme(config))
+    const fallback = `贷款产品（${currency}，已借未还本金 ${used}）：\n` + products.map((product, index) =>
+      `${index + 1}. ${product.name} - ${describeProduct(product)}，额度 ${quotas[index].limit}，可贷 ${quotas[index].available}`
+    ).join('\n') + '\n使用 bank.loan.apply <序号> <金额> 申请。'
+
     return await renderToImage(html, fallback)
   }
 
   /**
-   * 渲染取款确认页面
+   * 渲染贷款申请确认页面
    */
-  async function renderWithdrawConfirmPage(
+  async function renderLoanConfirmPage(
     username: string,
+    product: LoanProductConfig,
     amount: number,
-    currency: string,
-    balance: number
+    currency: string
   ) {
+    const { digits } = getPrecisionSettings(config, currency)
+    const interest = Number((amount * product.rate / 100 / 365 * product.term).toFixed(digits))
+    const dueDate = formatDate(addDays(startOfDay(), product.term))
+    const items = [
+      { label: '贷款产品', value: product.name },
+      { label: '借款金额', value: `${amount.toLocaleString()} ${currency}` },
+      { label: '年利率', value: `${product.rate}%（按日计息）` },
+      { label: '到期日', value: `${dueDate}（${product.term} 天）` },
+      { label: '预计到期应还', value: `${normalizeAmount(amount + interest).toLocaleString()} ${currency}` }
+    ]
+    if (product.overdueRate) {
+      items.push({ label: '逾期罚息', value: `年利率加收 ${product.overdueRate}%` })
+    }
+
     const content = `
-      ${renderHeader('💸', '取款确认', username)}
-      
-      ${renderConfirmDialog('请确认取款信息', [
-        { label: '取款金额', value: `${amount.toLocaleString()} ${currency}` },
-        { label: '取款来源', value: '活期存款' },
-        { label: '当前活期', value: `${balance.toLocaleString()} ${currency}` },
-        { label: '取款后活期', value: `${(balance - amount).toLocaleString()} ${currency}` }
-      ])}
-      
-      ${renderPromptBox('温馨提示', '仅可从活期存款中取出，定期需到期后自动转活期', 'warning')}
+      ${renderHeader('💳', '贷款确认', username)}
+      ${renderConfirmDialog('请确认贷款信息', items)}
+      ${renderPromptBox('温馨提示', '借款转入现金。到期未还清的贷款将按日加收罚息，并从同币种活期存款中自动扣款', 'warning')}
     `
 
     const html = getBaseTemplate(content, 520, getTheme(config))
-    const fallback = generateWithdrawConfirmMessage(amount, currency, balance)
-    
+    const fallback = `您将申请贷款：\n` + items.map(item => `${item.label}：${item.value}`).join('\n') + '\n确认操作请回复 yes 或 y，取消请回复其他内容。'
+
     return await renderToImage(html, fallback)
   }
 
   /**
-   * 渲染银行余额信息为HTML图片
+   * 渲染定期质押贷款确认页面
    */
-  async function renderBankBalanceImage(
+  async function renderPledgeConfirmPage(
     username: string,
-    balance: { total: number; demand: number; fixed: number },
-    currency: string,
-    demandRate: number = 0.25
+    record: MonetaryBankInterest,
+    amount: number,
+    limit: number
   ) {
-    const demandPercent = balance.total > 0 ? (balance.demand / balance.total * 100).toFixed(1) : '0'
-    const fixedPercent = balance.total > 0 ? (balance.fixed / balance.total * 100).toFixed(1) : '0'
+    const currency = record.currency
+    const { digits } = getPrecisionSettings(config, currency)
+    const rate = config.loan?.pledgeRate ?? 6
+    const dueDate = startOfDay(new Date(record.maturityDate || record.settlementDate))
+    const days = Math.max(1, Math.round((dueDate.getTime() - startOfDay().getTime()) / 86400000))
+    const interest = Number((amount * rate / 100 / 365 * days).toFixed(digits))
+    const items = [
+      { label: '质押定期', value: `${record.planName ? `${record.planName} ` : ''}${record.amount.toLocaleString()} ${currency}` },
+      { label: '借款金额', value: `${amount.toLocaleString()} ${currency}（最多 ${limit.toLocaleString()}）` },
+      { label: '年利率', value: `${rate}%（按日计息）` },
+      { label: '到期日', value: `${formatDate(dueDate)}（定期到期日）` },
+      { label: '预计到期应还', value: `${normalizeAmount(amount + interest).toLocaleString()} ${currency}` }
+    ]
 
     const content = `
-      ${renderHeader('🏦', '银行资产', username)}
-      ${renderBalanceCard('总资产', balance.total, currency)}
-      <div class="grid">
-        ${renderGridItem('💵', '可用资产（活期）', balance.demand, `利率 ${demandRate}% | 占比 ${demandPercent}%`, 'demand')}
-        ${renderGridItem('🔒', '不可用资产（定期）', balance.fixed, `占比 ${fixedPercent}%`, 'fixed')}
-      </div>
+      ${renderHeader('💳', '质押贷款确认', username)}
+      ${renderConfirmDialog('请确认贷款信息', items)}
+      ${renderPromptBox('温馨提示', '借款转入现金。质押期间该定期不可延期或提前支取；定期到期时本息优先偿还本贷款，剩余部分转为活期', 'warning')}
     `
 
     const html = getBaseTemplate(content, 520, getTheme(config))
-    const fallback = `您的银行资产：\n总资产：${balance.total} ${currency}\n可用资产（活期）：${balance.demand} ${currency} (利率 ${demandRate}%)\n不可用资产（定期）：${balance.fixed} ${currency}`
-    
+    const fallback = `您将以定期存款质押贷款：\n` + items.map(item => `${item.label}：${item.value}`).join('\n') + '\n确认操作请回复 yes 或 y，取消请回复其他内容。'
+
     return await renderToImage(html, fallback)
   }
 
   /**
-   * 渲染存款成功页面
+   * 渲染还款确认页面
    */
-  async function renderDepositSuccessImage(
+  async function renderLoanRepayConfirmPage(
     username: string,
+    loan: MonetaryBankLoan,
     amount: number,
-    currency: string,
-    newCash: number,
-    newBalance: { total: number; demand: number; fixed: number }
+    cash: number
   ) {
+    const interestPart = Math.min(amount, loan.interest)
+    const items = [
+      { label: '贷款编号', value: `#${loan.id}（${loan.productName}）` },
+      { label: '应还总额', value: `${getLoanOwed(loan).toLocaleString()} ${loan.currency}` },
+      { label: '本次还款', value: `${amount.toLocaleString()} ${loan.currency}` },
+      { label: '其中利息', value: `${interestPart.toLocaleString()} ${loan.currency}` },
+      { label: '其中本金', value: `${normalizeAmount(amount - interestPart).toLocaleString()} ${loan.currency}` },
+      { label: '当前现金', value: `${cash.toLocaleString()} ${loan.currency}` }
+    ]
+
     const content = `
-      ${renderHeader('💰', '存款成功', username)}
-      ${renderBalanceCard('存入金额', amount, currency)}
-      <div class="card success">
-        ${renderInfoRow('存款类型', '活期存款')}
-        ${renderInfoRow('当前现金', `${newCash.toLocaleString()} ${currency}`)}
-        ${renderInfoRow('银行总资产', `${newBalance.total.toLocaleString()} ${currency}`, 'success')}
-      </div>
-      <div class="grid">
-        ${renderGridItem('💵', '活期资产', newBalance.demand, '可随时取出', 'demand')}
-        ${renderGridItem('🔒', '定期资产', newBalance.fixed, '到期自动转活期', 'fixed')}
-      </div>
+      ${renderHeader('💳', '还款确认', username)}
+      ${renderConfirmDialog('请确认还款信息', items)}
+      ${renderPromptBox('温馨提示', '还款从现金扣除，先偿还利息再偿还本金', 'info')}
     `
 
     const html = getBaseTemplate(content, 520, getTheme(config))
-    const fallback = `成功存入 ${amount} ${currency}（活期）！\n现金余额：${newCash} ${currency}\n银行总资产：${newBalance.total} ${currency}`
-    
+    const fallback = `您将偿还贷款：\n` + items.map(item => `${item.label}：${item.value}`).join('\n') + '\n确认操作请回复 yes 或 y，取消请回复其他内容。'
+
     return await renderToImage(html, fallback)
   }
 
   /**
-   * 渲染取款成功页面
+   * 渲染贷款对账单（借款与还款后展示）
    */
-  async function renderWithdrawSuccessImage(
+  async function renderLoanStatementImage(
     username: string,
-    amount: number,
-    currency: string,
-    newCash: number,
-    newBalance: { total: number; demand: number; fixed: number }
+    title: string,
+    loan: MonetaryBankLoan,
+    rows: Array<{ label: string; value: string }>
   ) {
+    const statusType = loan.status === 'overdue' ? 'warning' : 'success'
     const content = `
-      ${renderHeader('💸', '取款成功', username)}
-      ${renderBalanceCard('取出金额', amount, currency)}
-      <div class="card success">
-        ${renderInfoRow('取款来源', '活期存款')}
-        ${renderInfoRow('当前现金', `${newCash.toLocaleString()} ${currency}`, 'success')}
-        ${renderInfoRow('银行总资产', `${newBalance.total.toLocaleString()} ${currency}`)}
-      </div>
-      <div class="grid">
-        ${renderGridItem('💰', '现金余额', newCash, '可用于消费', 'cash')}
-        ${renderGridItem('🏦', '银行余额', newBalance.total, '继续生息', 'bank')}
+      ${renderHeader('🧾', title, username)}
+      ${renderBalanceCard('应还总额', getLoanOwed(loan), getCurrencyDisplay(config, loan.currency))}
+      <div class="card ${statusType}">
+        ${renderInfoRow('贷款编号', `#${loan.id}（${loan.productName}）`)}
+        ${renderInfoRow('借款本金', `${loan.principal.toLocaleString()} ${loan.currency}`)}
+        ${renderInfoRow('未还本金', `${loan.outstanding.toLocaleString()} ${loan.currency}`)}
+        ${renderInfoRow('未还利息', `${loan.interest.toLocaleString()} ${loan.currency}`)}
+        ${renderInfoRow('年利率', `${loan.rate}%`)}
+        ${renderInfoRow('到期日', formatDate(loan.dueDate))}
+        ${renderInfoRow('状态', LOAN_STATUS_LABELS[loan.status], loan.status === 'overdue' ? 'error' : 'success')}
+        ${rows.map(row => renderInfoRow(row.label, row.value)).join('')}
       </div>
     `
 
     const html = getBaseTemplate(content, 520, getTheme(config))
-    const fallback = `成功取出 ${amount} ${currency}！\n现金余额：${newCash} ${currency}\n银行总资产：${newBalance.total} ${currency}`
-    
+    const fallback = `${title}！\n贷款 #${loan.id}（${loan.productName}）\n借款本金：${loan.principal} ${loan.currency}\n未还本金：${loan.outstanding} ${loan.currency}\n未还利息：${loan.interest} ${loan.currency}\n到期日：${formatDate(loan.dueDate)}\n状态：${LOAN_STATUS_LABELS[loan.status]}\n`
+      + rows.map(row => `${row.label}：${row.value}`).join('\n')
+
     return await renderToImage(html, fallback)
   }
 
   /**
-   * 渲染定期存款列表
+   * 渲染贷款列表页面
    */
-  async function renderFixedDepositListImage(
+  async function renderLoanListImage(
     username: string,
-    records: any[],
-    currency: string
+    loans: MonetaryBankLoan[]
   ) {
-    let listHtml = ''
-    records.forEach((record, index) => {
-      const cycleText = record.cycle === 'day' ? '日' : record.cycle === 'week' ? '周' : '月'
-      const statusText = record.extendRequested ? '已申请延期' : '未延期'
-      const statusClass = record.extendRequested ? 'pending' : 'active'
-      const dueDate = new Date(record.settlementDate).toLocaleDateString()
-      
-      listHtml += `
+    const listHtml = loans.map(loan => {
+      const statusClass = loan.status === 'active' ? 'active' : 'pending'
+      return `
         <div class="list-item">
           <div class="list-left">
-            <div class="list-title">${index + 1}. ${record.rate}% / ${cycleText}</div>
-            <div class="list-subtitle">到期日：${dueDate}</div>
+            <div class="list-title">#${loan.id} ${loan.productName} · 本金 ${loan.principal.toLocaleString()} ${loan.currency}</div>
+            <div class="list-subtitle">年利率 ${loan.rate}% · 到期日 ${formatDate(loan.dueDate)} · 未还本金 ${loan.outstanding.toLocaleString()} + 利息 ${loan.interest.toLocaleString()}</div>
           </div>
           <div class="list-right">
-            <div class="list-amount">${record.amount.toLocaleString()} ${currency}</div>
-            <span class="list-status ${statusClass}">${statusText}</span>
+            <div class="list-amount">${getLoanOwed(loan).toLocaleString()} ${loan.currency}</div>
+            <span class="list-status ${statusClass}">${LOAN_STATUS_LABELS[loan.status]}</span>
           </div>
         </div>
       `
-    })
-
-    const totalAmount = records.reduce((sum, r) => sum + r.amount, 0)
+    }).join('')
 
     const content = `
-      ${renderHeader('📋', '定期存款管理', username)}
-      ${renderBalanceCard('定期总额', totalAmount, currency)}
-      ${renderPromptBox('管理说明', '请输入编号选择要管理的定期存款，输入 0 退出', 'info')}
+      ${renderHeader('💳', '我的贷款', username)}
+      ${renderPromptBox('还款说明', '使用 bank.loan.repay &lt;编号&gt; [金额] 从现金还款；逾期贷款将从活期自动扣款', 'info')}
       <div style="margin-bottom: 20px;">
         ${listHtml}
       </div>
     `
 
-    const html = getBaseTemplate(content, 900, getTheme(config))
-    const fallback = '您的定期存款：\n' + records.map((r, i) => 
-      `${i+1}. ${r.rate}%/${r.cycle} - ${r.amount} ${currency}`
+    const html = getBaseTemplate(content, 800, getTheme(config))
+    const fallback = '您的贷款：\n' + loans.map(loan =>
+      `#${loan.id} ${loan.productName} - 应还 ${getLoanOwed(loan)} ${loan.currency}（本金 ${loan.outstanding} + 利息 ${loan.interest}），到期日 ${formatDate(loan.dueDate)}，${LOAN_STATUS_LABELS[loan.status]}`
     ).join('\n')
-    
+
     return await renderToImage(html, fallback)
   }
 
   /**
-   * 渲染定期申请方案选择页面
+   * 渲染活期透支状态页面
    */
-  async function renderFixedPlanSelectionPage(
+  async function renderOverdraftImage(
     username: string,
-    plans: Array<{ name?: string; rate?: number; cycle?: 'day' | 'week' | 'month' }>,
-    cash: number,
-    demand: number,
-    currency: string
+    currency: string,
+    overdraft: OverdraftStatus,
+    title: string
   ) {
-    const planItems = plans.map((plan, index) => {
-      const cycleText = plan.cycle === 'day' ? '日' : plan.cycle === 'week' ? '周' : '月'
-      return `
-        <div class="list-item">
-          <div class="list-left">
-            <div class="list-title">${index + 1}. ${plan.name || '未命名'}</div>
-            <div class="list-subtitle">利率：${plan.rate || 0}% / 周期：${cycleText}</div>
-          </div>
-          <div class="list-right">
-            <span class="list-status active">可选</span>
-          </div>
-        </div>
-      `
-    }).join('')
+    const limitSource = config.overdraft?.ratio
+      ? `近 ${config.overdraft.averageDays || 30} 天日均活期余额 × ${config.overdraft.ratio}%${config.overdraft.maxLimit ? `（最高 ${config.overdraft.maxLimit}）` : ''}，或管理员单独设置`
+      : '由管理员设置'
+    const content = `
+      ${renderHeader('🏧', title, username)}
+      ${renderBalanceCard('剩余可透支', overdraft.available, getCurrencyDisplay(config, currency))}
+      <div class="card ${overdraft.owed > 0 ? 'warning' : 'success'}">
+        ${renderInfoRow('状态', overdraft.enabled ? '已开通' : '未开通', overdraft.enabled ? 'success' : '')}
+        ${renderInfoRow('透支额度', `${overdraft.limit.toLocaleString()} ${currency}`)}
+        ${renderInfoRow('已透支本金', `${overdraft.used.toLocaleString()} ${currency}`, overdraft.used > 0 ? 'error' : '')}
+        ${renderInfoRow('未还透支利息', `${overdraft.interest.toLocaleString()} ${currency}`, overdraft.interest > 0 ? 'error' : '')}
+        ${renderInfoRow('透支年利率', `${config.overdraft?.rate ?? 18}%（按日计息）`)}
+      </div>
+      ${renderPromptBox('透支说明', `额度：${limitSource}。开通后活期不足时，取款的不足部分自动透支；存款与每日结算时的活期余额优先偿还透支。使用 bank.overdraft ${overdraft.enabled ? 'off 关闭' : 'on 开通'}`, 'info')}
+    `
+
+    const html = getBaseTemplate(content, 520, getTheme(config))
+    const fallback = `${title}（${currency}）\n状态：${overdraft.enabled ? '已开通' : '未开通'}\n透支额度：${overdraft.limit} ${currency}\n已透支本金：${overdraft.used} ${currency}\n未还透支利息：${overdraft.interest} ${currency}\n剩余可透支：${overdraft.available} ${currency}\n额度规则：${limitSource}`
+
+    return await renderToImage(html, fallback)
+  }
+
+  /**
+   * 渲染银行金库收支页面（管理员）
+   */
+  async function renderTreasuryImage(
+    currency: string,
+    balance: number,
+    days: number,
+    flows: { type: TreasuryFlowType; inflow: number; outflow: number }[],
+    recent: MonetaryBankTreasuryFlow[]
+  ) {
+    const mode = config.treasury?.mode || 'deficit'
+    const modeText = { deficit: '允许赤字', pause: '暂停付息', prorate: '按比例付息' }[mode]
+    const inflow = normalizeAmount(flows.reduce((sum, f) => sum + f.inflow, 0))
+    const outflow = normalizeAmount(flows.reduce((sum, f) => sum + f.outflow, 0))
+    const formatFlow = (flow: MonetaryBankTreasuryFlow) =>
+      `${formatDateTime(flow.createdAt)} ${TREASURY_FLOW_LABELS[flow.type] || flow.type} ${flow.amount > 0 ? '+' : ''}${flow.amount}${flow.uid ? ` · 用户 ${flow.uid}` : ''}${flow.note ? ` · ${flow.note}` : ''}`
 
     const content = `
-      ${renderHeader('🔒', '申请定期存款', username)}
-      
-      <div class="grid">
-        ${renderGridItem('💵', '可用现金', cash, '优先扣除', 'cash')}
-        ${renderGridItem('🏦', '活期存款', demand, '现金不足时扣除', 'demand')}
+      ${renderHeader('🏛️', '银行金库', getCurrencyDisplay(config, currency).name)}
+      ${renderBalanceCard('金库余额', balance, getCurrencyDisplay(config, currency))}
+      <div class="card ${balance < 0 ? 'warning' : ''}">
+        ${renderInfoRow('余额不足时', modeText, balance < 0 ? 'error' : '')}
+        ${renderInfoRow(`近 ${days} 天流入`, `${inflow.toLocaleString()} ${currency}`, 'success')}
+        ${renderInfoRow(`近 ${days} 天流出`, `${outflow.toLocaleString()} ${currency}`, outflow > 0 ? 'error' : '')}
       </div>
-      
-      ${renderPromptBox('方案选择', '请输入方案编号，或输入 0 取消', 'info')}
-      
-      <div style="margin-bottom: 20px;">
-        ${planItems}
+      <div class="card">
+        ${flows.length
+          ? flows.map(f => renderInfoRow(TREASURY_FLOW_LABELS[f.type], `+${f.inflow.toLocaleString()} / -${f.outflow.toLocaleString()}`)).join('')
+          : renderInfoRow('收支明细', '暂无')}
       </div>
+      ${recent.length ? renderPromptBox('最近流水', recent.map(formatFlow).join('<br>'), 'info') : ''}
     `
 
-    const html = getBaseTemplate(content, 900, getTheme(config))
-    const fallback = '可选方案：\n' + plans.map((p, i) => 
-      `${i+1}. ${p.name} - ${p.rate}% / ${p.cycle}`
-    ).join('\n')
-    
+    const html = getBaseTemplate(content, 600, getTheme(config))
+    const fallback = `银行金库（${currency}）\n余额：${balance} ${currency}\n余额不足时：${modeText}\n`
+      + `近 ${days} 天流入 ${inflow}，流出 ${outflow}\n`
+      + flows.map(f => `${TREASURY_FLOW_LABELS[f.type]}：+${f.inflow} / -${f.outflow}`).join('\n')
+      + (recent.length ? `\n最近流水：\n${recent.map(formatFlow).join('\n')}` : '')
+
     return await renderToImage(html, fallback)
   }
 
   /**
-   * 渲染定期存款成功页面
+   * 渲染信用分页面
    */
-  async function renderFixedDepositSuccessImage(
+  async function renderCreditImage(
     username: string,
-    amount: number,
-    currency: string,
-    planName: string,
-    rate: number,
-    cycle: 'day' | 'week' | 'month',
-    settlementDate: Date,
-    fromCash: number,
-    fromDemand: number,
-    newCash: number,
-    newBalance: { total: number; demand: number; fixed: number }
+    credit: MonetaryBankCredit
   ) {
-    const cycleText = cycle === 'day' ? '日' : cycle === 'week' ? '周' : '月'
-    const dueDate = settlementDate.toLocaleDateString('zh-CN', { year: 'numeric', month: '2-digit', day: '2-digit' })
+    const { items } = calculateCreditScore(credit)
+    const level = getCreditLevel(credit.score)
+    const formatPoints = (points: number) => points > 0 ? `+${points}` : String(points)
 
     const content = `
-      ${renderHeader('🔒', '定期存款成功', username)}
-      ${renderBalanceCard('存入金额', amount, currency)}
-      
-      <div class="card success">
-        ${renderInfoRow('存款方案', `${planName} (${rate}% / ${cycleText})`, 'success')}
-        ${renderInfoRow('资金来源', `现金 ${fromCash.toLocaleString()} + 活期 ${fromDemand.toLocaleString()}`)}
-        ${renderInfoRow('到期日期', dueDate)}
-      </div>
-      
+      ${renderHeader('⭐', '我的信用分', username)}
       <div class="grid">
-        ${renderGridItem('💵', '当前现金', newCash, '可用于消费', 'cash')}
-        ${renderGridItem('🏦', '银行总资产', newBalance.total, `活期 ${newBalance.demand} + 定期 ${newBalance.fixed}`, 'bank')}
+        ${renderGridItem('⭐', '信用分', credit.score, `等级：${level}`, 'bank')}
+        ${renderGridItem('💵', '日均活期余额', credit.averageBalance, `近 ${config.credit?.averageDays || 30} 天`, 'demand')}
       </div>
-      
-      ${renderPromptBox('温馨提示', '定期存款到期后将自动转为活期，或可在管理中申请延期续存', 'info')}
+      <div class="card">
+        ${renderInfoRow('更新时间', `${formatDateTime(credit.updatedAt)}（每日结算时更新）`)}
+        ${renderInfoRow('基础分', '500')}
+        ${items.map(item => renderInfoRow(`${item.label}（${item.value}）`, formatPoints(item.points), item.points > 0 ? 'success' : item.points < 0 ? 'error' : '')).join('')}
+      </div>
+      ${renderPromptBox('信用说明', `信用分范围 300-900。日均活期余额按 ${config.defaultCurrency || 'coin'} 近 ${config.credit?.averageDays || 30} 天统计；长期存款、定期持有到期与按时还款可提高信用分，提前支取、贷款逾期与透支会降低信用分`, 'info')}
     `
 
     const html = getBaseTemplate(content, 520, getTheme(config))
-    const fallback = `成功申请定期存款！\n方案：${planName}\n金额：${amount} ${currency}\n利率：${rate}% / ${cycleText}\n来源：现金 ${fromCash} + 活期 ${fromDemand}\n到期日：${dueDate}\n银行总资产：${newBalance.total} ${currency}`
-    
+    const fallback = `您的信用分：${credit.score}（${level}）\n基础分：500\n`
+      + items.map(item => `${item.label}（${item.value}）：${formatPoints(item.points)}`).join('\n')
+      + `\n更新时间：${formatDateTime(credit.updatedAt)}`
+
     return await renderToImage(html, fallback)
   }
 
   /**
-   * 渲染延期方案选择页面
+   * 渲染定时任务列表页面
    */
-  async function renderExtensionPlanSelectionPage(
+  async function renderStandingOrderListImage(
     username: string,
-    plans: Array<{ name?: string; rate?: number; cycle?: 'day' | 'week' | 'month' }>,
-    currentAmount: number,
-    currency: string
+    orders: MonetaryBankStandingOrder[]
   ) {
-    const planItems = plans.map((plan, index) => {
-      const cycleText = plan.cycle === 'day' ? '日' : plan.cycle === 'week' ? '周' : '月'
+    const listHtml = orders.map(order => {
+      const statusText = order.status === 'active' ? '有效' : '已暂停'
+      const statusClass = order.status === 'active' ? 'active' : 'pending'
+      const nextRun = formatDate(order.nextRunDate)
+      const failText = order.failCount > 0 ? ` · 连续失败 ${order.failCount} 次：${order.lastError}` : ''
       return `
         <div class="list-item">
           <div class="list-left">
-            <div class="list-title">${index + 1}. ${plan.name || '未命名'}</div>
-            <div class="list-subtitle">利率 ${plan.rate || 0}% / 周期 ${cycleText}</div>
+            <div class="list-title">#${order.id} ${describeStandingOrder(order)}</div>
+            <div class="list-subtitle">下次执行：${nextRun}${failText}</div>
           </div>
           <div class="list-right">
-            <span class="list-status active">可选</span>
+            <div class="list-amount">${order.amount.toLocaleString()} ${order.currency}</div>
+            <span class="list-status ${statusClass}">${statusText}</span>
           </div>
         </div>
       `
     }).join('')
 
     const content = `
-      ${renderHeader('⚙️', '申请延期续存', username)}
-      ${renderBalanceCard('当前定期金额', currentAmount, currency)}
-      ${renderPromptBox('延期说明', '到期后将按选择的新方案继续存款，本金+利息自动续存', 'info')}
+      ${renderHeader('⏰', '定时任务', username)}
+      ${renderPromptBox('管理说明', '使用 bank.schedule.cancel &lt;编号&gt; 取消任务，bank.schedule.resume &lt;编号&gt; 恢复已暂停的任务', 'info')}
       <div style="margin-bottom: 20px;">
-        ${planItems}
+        ${listHtml}
       </div>
-      ${renderPromptBox('操作提示', '请输入方案编号，或输入 0 返回', 'warning')}
     `
 
     const html = getBaseTemplate(content, 800, getTheme(config))
-    const fallback = '可选续期方案：\n' + plans.map((p, i) => 
-      `${i+1}. ${p.name} - ${p.rate}% / ${p.cycle === 'day' ? '日' : p.cycle === 'week' ? '周' : '月'}`
+    const fallback = '您的定时任务：\n' + orders.map(o =>
+      `#${o.id} ${describeStandingOrder(o)} - ${o.status === 'active' ? '有效' : '已暂停'}，下次执行：${formatDate(o.nextRunDate)}${o.failCount > 0 ? `（连续失败 ${o.failCount} 次：${o.lastError}）` : ''}`
     ).join('\n')
-    
-    return await renderToImage(html, fallback)
-  }
-
-  /**
-   * 渲染取消延期确认页面
-   */
-  async function renderCancelExtensionPage(
-    username: string,
-    amount: number,
-    currency: string,
-    currentPlan: string
-  ) {
-    const content = `
-      ${renderHeader('⚠️', '取消延期申请', username)}
-      ${renderBalanceCard('定期金额', amount, currency)}
-      
-      ${renderConfirmDialog('请确认取消延期', [
-        { label: '当前延期方案', value: currentPlan },
-        { label: '取消后处理', value: '到期自动转为活期' },
-        { label: '是否确认取消', value: '请输入 yes 或 y 确认' }
-      ])}
-      
-      ${renderPromptBox('注意', '取消后，定期存款到期将自动转为活期存款', 'warning')}
-    `
 
-    const html = getBaseTemplate(content, 520, getTheme(config))
-    const fallback = `当前已申请延期至：${currentPlan}\n取消后到期将自动转为活期\n确认取消请输入 yes 或 y`
-    
     return await renderToImage(html, fallback)
   }
-
-  /**
-   * 渲染延期操作成功页面
-   */
-  async function renderExtensionSuccessPage(
-    username: string,
-    action: 'apply' | 'cancel',
-    amount: number,
-    currency: string,
-    planName?: string,
-    rate?: number,
-    cycle?: 'day' | 'week' | 'month'
-  ) {
-    if (action === 'cancel') {
-      const content = `
-        ${renderHeader('✅', '取消成功', username)}
-        ${renderBalanceCard('定期金额', amount, currency)}
-        
-        <div class="card success">
-          ${renderInfoRow('操作结果', '已取消延期申请', 'success')}
-          ${renderInfoRow('到期处理', '自动转为活期存款')}
-        </div>
-        
-        ${renderPromptBox('提示', '到期后本金+利息将转入活期账户，可随时取出', 'info')}
-      `
-
-      const html = getBaseTemplate(content, 520, getTheme(config))
-      const fallback = `已取消延期申请\n定期金额：${amount} ${currency}\n到期后将自动转为活期`
-      
-      return await renderToImage(html, fallback)
-    } else {
-      const cycleText = cycle === 'day' ? '日' : cycle === 'week' ? '周' : '月'
-      const content = `
-        ${renderHeader('✅', '延期申请成功', username)}
-        ${renderBalanceCard('定期金额', amount, currency)}
-        
-        <div class="card success">
-          ${renderInfoRow('延期方案', `${planName} (${rate}% / ${cycleText})`, 'success')}
-          ${renderInfoRow('到期处理', '按新方案自动续存')}
-        </div>
-        
-        ${renderPromptBox('提示', '到期后本金+利息将按新方案继续存入定期', 'info')}
-      `
-
-      const html = getBaseTemplate(content, 520, getTheme(config))
-      const fallback = `延期申请成功！\n方案：${planName}\n利率：${rate}% / ${cycleText}\n定期金额：${amount} ${currency}`
-      
-      return await renderToImage(html, fallback)
-    }
-  }
 }
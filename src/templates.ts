@@ -236,6 +236,12 @@ export function getBaseTemplate(content: string, width: number = 520, isDark: bo
       letter-spacing: -1px;
     }
     
+    .balance-symbol {
+      font-size: 28px;
+      margin-right: 6px;
+      opacity: 0.9;
+    }
+    
     .balance-currency {
       font-size: 16px;
       color: rgba(255, 255, 255, 0.8);
@@ -556,13 +562,15 @@ export function renderHeader(icon: string, title: string, username: string): str
 
 /**
  * 余额卡片（大标题样式）
+ * @param currency 货币类型，或货币的显示名称与符号（符号显示在金额前）
  */
-export function renderBalanceCard(label: string, value: number, currency: string): string {
+export function renderBalanceCard(label: string, value: number, currency: string | { name: string; symbol?: string }): string {
+  const { name, symbol } = typeof currency === 'string' ? { name: currency, symbol: '' } : currency
   return `
     <div class="balance-section">
       <div class="balance-label">${label}</div>
-      <div class="balance-value">${value.toLocaleString()}</div>
-      <div class="balance-currency">${currency}</div>
+      <div class="balance-value">${symbol ? `<span class="balance-symbol">${symbol}</span>` : ''}${value.toLocaleString()}</div>
+      <div class="balance-currency">${name}</div>
     </div>
   `
 }
@@ -0,0 +1,78 @@
+import { expect } from 'chai'
+import { internal } from '../src'
+import { createBank, TestBank } from './utils'
+
+const { zonedMidnight, startOfDay, addDays, addMonths, calculateNextSettlementDate } = internal
+const iso = (date: Date) => date.toISOString()
+
+describe('日期计算', () => {
+  let bank: TestBank
+
+  afterEach(async () => {
+    await bank.app.stop()
+  })
+
+  describe('America/New_York', () => {
+    beforeEach(async () => {
+      bank = await createBank({ timezone: 'America/New_York', weekAnchor: 1 })
+    })
+
+    it('按月顺延到小月月末', () => {
+      expect(iso(addMonths(zonedMidnight(2025, 1, 31), 1))).to.equal('2025-02-28T05:00:00.000Z')
+      expect(iso(addMonths(zonedMidnight(2024, 1, 31), 1))).to.equal('2024-02-29T05:00:00.000Z')
+      expect(iso(addMonths(zonedMidnight(2024, 12, 31), 2))).to.equal('2025-02-28T05:00:00.000Z')
+    })
+
+    it('按月结算的锚定日不因小月漂移', () => {
+      const jan = zonedMidnight(2025, 1, 31)
+      const feb = calculateNextSettlementDate('month', false, jan, 31)
+      const mar = calculateNextSettlementDate('month', false, feb, 31)
+      const apr = calculateNextSettlementDate('month', false, mar, 31)
+      expect([feb, mar, apr].map(iso)).to.deep.equal([
+        '2025-02-28T05:00:00.000Z',
+        '2025-03-31T04:00:00.000Z',
+        '2025-04-30T04:00:00.000Z'
+      ])
+    })
+
+    it('按周结算顺延到至少 7 天后的锚定星期（跨年）', () => {
+      // 2024-12-29 周日、12-30 周一、12-25 周三，均结算于 2025-01-06 周一
+      for (const day of [29, 30, 25]) {
+        const next = calculateNextSettlementDate('week', false, zonedMidnight(2024, 12, day))
+        expect(iso(next), `12-${day}`).to.equal('2025-01-06T05:00:00.000Z')
+      }
+      // 2024-12-31 周二：7 天后为周二，顺延到 2025-01-13 周一
+      expect(iso(calculateNextSettlementDate('week', false, zonedMidnight(2024, 12, 31)))).to.equal('2025-01-13T05:00:00.000Z')
+    })
+
+    it('夏令时开始日（3月10日，23 小时）', () => {
+      const midnight = zonedMidnight(2024, 3, 10)
+      expect(iso(midnight)).to.equal('2024-03-10T05:00:00.000Z')
+      expect(iso(startOfDay(new Date('2024-03-10T15:00:00Z')))).to.equal('2024-03-10T05:00:00.000Z')
+      expect(iso(addDays(midnight, 1))).to.equal('2024-03-11T04:00:00.000Z')
+      expect(iso(calculateNextSettlementDate('day', false, new Date('2024-03-10T06:30:00Z')))).to.equal('2024-03-11T04:00:00.000Z')
+    })
+
+    it('夏令时结束日（11月3日，25 小时）', () => {
+      const midnight = zonedMidnight(2024, 11, 3)
+      expect(iso(midnight)).to.equal('2024-11-03T04:00:00.000Z')
+      // 当地 23:30（EST），仍属于 11月3日
+      expect(iso(startOfDay(new Date('2024-11-04T04:30:00Z')))).to.equal('2024-11-03T04:00:00.000Z')
+      expect(iso(addDays(midnight, 1))).to.equal('2024-11-04T05:00:00.000Z')
+      expect(iso(addDays(zonedMidnight(2024, 11, 4), -1))).to.equal('2024-11-03T04:00:00.000Z')
+    })
+  })
+
+  describe('America/Santiago', () => {
+    beforeEach(async () => {
+      bank = await createBank({ timezone: 'America/Santiago' })
+    })
+
+    it('0点因夏令时不存在时取当天最早的有效时刻', () => {
+      // 2024-09-08 当地时间 00:00 直接跳到 01:00（UTC-4 → UTC-3）
+      expect(iso(zonedMidnight(2024, 9, 8))).to.equal('2024-09-08T04:00:00.000Z')
+      expect(iso(addDays(zonedMidnight(2024, 9, 7), 1))).to.equal('2024-09-08T04:00:00.000Z')
+      expect(iso(addDays(zonedMidnight(2024, 9, 8), 1))).to.equal('2024-09-09T03:00:00.000Z')
+    })
+  })
+})
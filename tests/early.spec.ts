@@ -0,0 +1,58 @@
+import { expect } from 'chai'
+import { internal } from '../src'
+import { createBank, TestBank } from './utils'
+
+describe('定期提前支取', () => {
+  let bank: TestBank
+
+  afterEach(async () => {
+    await bank.app.stop()
+  })
+
+  /** 创建 1000 的周定期（存期 3 周），settle 为 true 时结算一个周期，返回定期记录 id */
+  async function createFixed(interimInterest: 'accrue' | 'payout', settle: boolean) {
+    bank = await createBank({
+      fixedInterest: [{ name: '周定期', rate: 10, cycle: 'week', term: 3, earlyPenaltyRate: 1, interimInterest }]
+    })
+    bank.cash.set('1:coin', 1000)
+    const { record } = await internal.createFixedDeposit(bank.app, 1, 'coin', bank.config.fixedInterest[0], 1000)
+    if (settle) await internal.settleInterestForDay(bank.app, bank.config, new Date(record.settlementDate))
+    return record.id
+  }
+
+  it('未结算时全部支取：仅扣除违约金', async () => {
+    const id = await createFixed('accrue', false)
+
+    const result = await internal.earlyWithdrawFixed(bank.app, bank.config, 1, 'coin', id, 1000)
+    expect(result).to.deep.include({ principal: 1000, forfeited: 0, penalty: 10, net: 990, remaining: 0 })
+    expect(bank.cash.get('1:coin')).to.equal(990)
+  })
+
+  it('结算一个周期后全部支取：扣回已计入本金的利息', async () => {
+    const id = await createFixed('accrue', true)
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 1100, demand: 0, fixed: 1100 })
+
+    const result = await internal.earlyWithdrawFixed(bank.app, bank.config, 1, 'coin', id, 1100)
+    expect(result).to.deep.include({ principal: 1100, forfeited: 100, penalty: 10, net: 990, remaining: 0 })
+    expect(bank.cash.get('1:coin')).to.equal(990)
+    expect((await bank.snapshot()).treasury).to.deep.equal({ coin: 10 })
+  })
+
+  it('部分支取按比例扣回利息，剩余部分保留其余已得利息', async () => {
+    const id = await createFixed('accrue', true)
+
+    const result = await internal.earlyWithdrawFixed(bank.app, bank.config, 1, 'coin', id, 550)
+    expect(result).to.deep.include({ forfeited: 50, penalty: 5, net: 495, remaining: 550 })
+
+    const rest = await internal.earlyWithdrawFixed(bank.app, bank.config, 1, 'coin', id, 550)
+    expect(rest).to.deep.include({ forfeited: 50, penalty: 5, net: 495, remaining: 0 })
+  })
+
+  it('已转入活期的利息同样扣回', async () => {
+    const id = await createFixed('payout', true)
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 1100, demand: 100, fixed: 1000 })
+
+    const result = await internal.earlyWithdrawFixed(bank.app, bank.config, 1, 'coin', id, 1000)
+    expect(result).to.deep.include({ forfeited: 100, penalty: 9, net: 891, remaining: 0 })
+  })
+})
@@ -0,0 +1,60 @@
+import { expect } from 'chai'
+import { createBank, TestBank } from './utils'
+
+describe('API 幂等键', () => {
+  let bank: TestBank
+
+  beforeEach(async () => {
+    bank = await createBank()
+    bank.cash.set('1:coin', 1000)
+    bank.cash.set('2:coin', 1000)
+  })
+
+  afterEach(async () => {
+    await bank.app.stop()
+  })
+
+  it('重复调用返回首次结果，不再执行', async () => {
+    const first = await bank.app.monetaryBank.deposit(1, 'coin', 100, 'order-1')
+    const second = await bank.app.monetaryBank.deposit(1, 'coin', 100, 'order-1')
+    expect(first.success).to.equal(true)
+    expect(second).to.deep.equal(first)
+    expect(bank.cash.get('1:coin')).to.equal(900)
+  })
+
+  it('同一个键用于不同参数时拒绝执行', async () => {
+    await bank.app.monetaryBank.deposit(1, 'coin', 100, 'order-1')
+    const result = await bank.app.monetaryBank.deposit(1, 'coin', 200, 'order-1')
+    expect(result).to.deep.equal({ success: false, error: '幂等键已被其他操作使用' })
+    expect(bank.cash.get('1:coin')).to.equal(900)
+  })
+
+  it('同一个键用于其他方法时拒绝执行', async () => {
+    await bank.app.monetaryBank.deposit(1, 'coin', 100, 'order-1')
+    const result = await bank.app.monetaryBank.withdraw(1, 'coin', 100, 'order-1')
+    expect(result).to.deep.equal({ success: false, error: '幂等键已被其他操作使用' })
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 100, demand: 100, fixed: 0 })
+  })
+
+  it('不同用户使用相同的键互不影响', async () => {
+    expect((await bank.app.monetaryBank.deposit(1, 'coin', 100, 'order-1')).success).to.equal(true)
+    expect((await bank.app.monetaryBank.deposit(2, 'coin', 300, 'order-1')).success).to.equal(true)
+    expect(bank.cash.get('1:coin')).to.equal(900)
+    expect(bank.cash.get('2:coin')).to.equal(700)
+  })
+
+  it('并发调用只生效一次', async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, () => bank.app.monetaryBank.deposit(1, 'coin', 100, 'order-1')))
+    for (const result of results) expect(result).to.deep.equal(results[0])
+    expect(results[0].success).to.equal(true)
+    expect(bank.cash.get('1:coin')).to.equal(900)
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 100, demand: 100, fixed: 0 })
+  })
+
+  it('失败的调用可以使用同一个键重试', async () => {
+    expect((await bank.app.monetaryBank.withdraw(1, 'coin', 100, 'order-1')).success).to.equal(false)
+    await bank.app.monetaryBank.deposit(1, 'coin', 100)
+    expect((await bank.app.monetaryBank.withdraw(1, 'coin', 100, 'order-1')).success).to.equal(true)
+    expect(bank.cash.get('1:coin')).to.equal(1000)
+  })
+})
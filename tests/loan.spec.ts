@@ -0,0 +1,61 @@
+import { expect } from 'chai'
+import { createBank, TestBank } from './utils'
+
+describe('贷款额度', () => {
+  let bank: TestBank
+
+  beforeEach(async () => {
+    bank = await createBank({ loan: { enabled: true } })
+    bank.cash.set('1:coin', 1000)
+    await bank.app.monetaryBank.deposit(1, 'coin', 1000)
+  })
+
+  afterEach(async () => {
+    await bank.app.stop()
+  })
+
+  /** 通过超额申请读取当前可贷额度 */
+  async function getAvailable(product: string) {
+    const result = await bank.app.monetaryBank.applyLoan(1, 'coin', product, 1e9)
+    expect(result.success).to.equal(false)
+    return Number(/当前可贷：(\d+)/.exec(result.error)[1])
+  }
+
+  it('借款存回银行不会抬高额度（maxRatio 100）', async () => {
+    expect(await getAvailable('月度贷')).to.equal(1000)
+
+    for (let i = 0; i < 3; i++) {
+      const available = await getAvailable('月度贷')
+      if (available > 0) {
+        expect((await bank.app.monetaryBank.applyLoan(1, 'coin', '月度贷', available)).success).to.equal(true)
+      }
+      await bank.app.monetaryBank.deposit(1, 'coin', bank.cash.get('1:coin'))
+      expect(await getAvailable('月度贷')).to.equal(0)
+    }
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 2000, demand: 2000, fixed: 0 })
+  })
+
+  it('借款存回银行不会抬高额度（maxRatio 50）', async () => {
+    expect((await bank.app.monetaryBank.applyLoan(1, 'coin', '短期贷', 500)).success).to.equal(true)
+    await bank.app.monetaryBank.deposit(1, 'coin', 500)
+    expect(await getAvailable('短期贷')).to.equal(0)
+  })
+
+  it('未存回的借款只占用额度', async () => {
+    expect((await bank.app.monetaryBank.applyLoan(1, 'coin', '月度贷', 300)).success).to.equal(true)
+    expect(await getAvailable('月度贷')).to.equal(700)
+
+    // 借款之后存入的自有资金超过未还本金的部分计入额度
+    bank.cash.set('1:coin', 800)
+    await bank.app.monetaryBank.deposit(1, 'coin', 800)
+    expect(await getAvailable('月度贷')).to.equal(1200)
+  })
+
+  it('幂等重放的贷款结果保留日期类型', async () => {
+    const first = await bank.app.monetaryBank.applyLoan(1, 'coin', '月度贷', 100, 'loan-1')
+    const second = await bank.app.monetaryBank.applyLoan(1, 'coin', '月度贷', 100, 'loan-1')
+    expect(second.loan.dueDate).to.be.instanceOf(Date)
+    expect(second).to.deep.equal(first)
+    expect(await bank.app.database.get('monetary_bank_loan', { uid: 1 })).to.have.length(1)
+  })
+})
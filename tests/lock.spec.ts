@@ -0,0 +1,48 @@
+import { expect } from 'chai'
+import { createBank, TestBank } from './utils'
+
+describe('用户资金锁', () => {
+  let bank: TestBank
+
+  beforeEach(async () => {
+    bank = await createBank()
+    bank.cash.set('1:coin', 100)
+    await bank.app.monetaryBank.deposit(1, 'coin', 100)
+  })
+
+  afterEach(async () => {
+    await bank.app.stop()
+  })
+
+  it('并发取款不会使余额为负', async () => {
+    // 记录每次现金变化后的活期余额，确认任何时刻都不为负
+    const demands: number[] = []
+    const api = bank.app.monetaryBank
+    const results = await Promise.all(Array.from({ length: 10 }, async () => {
+      const result = await api.withdraw(1, 'coin', 30)
+      demands.push((await api.getBalance(1, 'coin')).demand)
+      return result
+    }))
+
+    expect(results.filter(r => r.success)).to.have.length(3)
+    expect(Math.min(...demands)).to.be.at.least(0)
+    expect(await api.getBalance(1, 'coin')).to.deep.equal({ total: 10, demand: 10, fixed: 0 })
+    expect(bank.cash.get('1:coin')).to.equal(90)
+  })
+
+  it('并发存取款的结果与依次执行一致', async () => {
+    bank.cash.set('1:coin', 50)
+    const api = bank.app.monetaryBank
+    const results = await Promise.all([
+      api.withdraw(1, 'coin', 80),
+      api.deposit(1, 'coin', 50),
+      api.withdraw(1, 'coin', 60),
+      api.withdraw(1, 'coin', 20)
+    ])
+
+    // 依次执行：取 80 → 存 50 → 取 60 → 取 20（活期仅剩 10，失败）
+    expect(results.map(r => r.success)).to.deep.equal([true, true, true, false])
+    expect(await api.getBalance(1, 'coin')).to.deep.equal({ total: 10, demand: 10, fixed: 0 })
+    expect(bank.cash.get('1:coin')).to.equal(140)
+  })
+})
@@ -0,0 +1,82 @@
+import { expect } from 'chai'
+import { internal } from '../src'
+import { createBank, TestBank } from './utils'
+
+/**
+ * 依次在操作的第 1、2、3 … 步注入失败，断言每次失败后现金与存款都恢复原状，直到操作不再触及注入点
+ * 最后一次执行未触发注入，操作正常完成
+ * @returns 注入过失败的步骤数
+ */
+async function failEachStep(bank: TestBank, operation: () => Promise<unknown>): Promise<number> {
+  for (let step = 1; ; step++) {
+    const before = await bank.snapshot()
+    const fired = bank.failAt(step)
+    await operation().catch(() => {})
+    if (!fired()) {
+      bank.failAt(0)
+      return step - 1
+    }
+    expect(await bank.snapshot(), `第 ${step} 步失败后未恢复`).to.deep.equal(before)
+  }
+}
+
+describe('多步资金操作的回滚', () => {
+  let bank: TestBank
+
+  beforeEach(async () => {
+    bank = await createBank({
+      fixedInterest: [{ name: '周定期', rate: 10, cycle: 'week', term: 1 }]
+    })
+    bank.cash.set('1:coin', 1000)
+  })
+
+  afterEach(async () => {
+    await bank.app.stop()
+  })
+
+  it('存款', async () => {
+    const steps = await failEachStep(bank, () => bank.app.monetaryBank.deposit(1, 'coin', 100))
+    expect(steps).to.equal(2)
+    expect(bank.cash.get('1:coin')).to.equal(900)
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 100, demand: 100, fixed: 0 })
+  })
+
+  it('取款', async () => {
+    // 三笔活期记录：取款会删除前两笔并修改第三笔，最后增加现金
+    for (const amount of [100, 100, 100]) {
+      await bank.app.monetaryBank.deposit(1, 'coin', amount)
+    }
+    const steps = await failEachStep(bank, () => bank.app.monetaryBank.withdraw(1, 'coin', 250))
+    expect(steps).to.equal(3)
+    expect(bank.cash.get('1:coin')).to.equal(950)
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 50, demand: 50, fixed: 0 })
+  })
+
+  it('创建定期（现金 + 活期拆分扣款）', async () => {
+    await bank.app.monetaryBank.deposit(1, 'coin', 300)
+    await bank.app.monetaryBank.deposit(1, 'coin', 300)
+    bank.cash.set('1:coin', 200)
+    const plan = bank.config.fixedInterest[0]
+
+    // 扣除现金、删除第一笔活期、修改第二笔活期，最后创建定期记录
+    const steps = await failEachStep(bank, () => internal.createFixedDeposit(bank.app, 1, 'coin', plan, 600))
+    expect(steps).to.equal(3)
+    expect(bank.cash.get('1:coin')).to.equal(0)
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 800, demand: 200, fixed: 600 })
+  })
+
+  it('定期到期转活期', async () => {
+    const plan = bank.config.fixedInterest[0]
+    const { record } = await internal.createFixedDeposit(bank.app, 1, 'coin', plan, 500)
+    await bank.app.database.upsert('monetary_bank_treasury', [{ currency: 'coin', balance: 1000, updatedAt: new Date() }])
+
+    // 将定期调整为今天到期（未申请延期，结算后转为活期）
+    const today = new Date()
+    await bank.app.database.set('monetary_bank_int', { id: record.id }, { settlementDate: today, maturityDate: today })
+
+    // 创建活期记录，再删除定期记录
+    const steps = await failEachStep(bank, () => internal.settleInterestForDay(bank.app, bank.config, today))
+    expect(steps).to.equal(2)
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 550, demand: 550, fixed: 0 })
+  })
+})
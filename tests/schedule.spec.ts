@@ -0,0 +1,60 @@
+import { expect } from 'chai'
+import { App } from 'koishi'
+import memory from '@koishijs/plugin-database-memory'
+import * as bank from '../src'
+import './utils'  // 关闭插件日志
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * 以指定的最近结算日期启动结算任务（时区 UTC），返回启动时完成结算的日期
+ */
+async function startWithLastSettlement(settlementCron: string, lastSettled?: Date): Promise<string[]> {
+  const app = new App()
+  app.plugin(memory)
+
+  // 先以不启动结算任务的配置建表并写入最近结算日期，再以启用利息的配置重新加载插件
+  const fork = app.plugin(bank, bank.Config({ debug: false }))
+  await app.start()
+  if (lastSettled) {
+    await app.database.upsert('monetary_bank_meta', [{ key: 'lastSettlementDate', value: lastSettled.toISOString(), updatedAt: new Date() }])
+  }
+  fork.dispose()
+  app.plugin(bank, bank.Config({ debug: false, enableInterest: true, timezone: 'UTC', settlementCron }))
+  await app.lifecycle.flush()
+
+  const meta = await app.database.get('monetary_bank_meta', {})
+  await app.stop()
+  return meta.filter(m => m.key.startsWith('settled:')).map(m => m.key.slice(8)).sort()
+}
+
+/**
+ * 今天（UTC）0点之前 days 天的0点
+ */
+function daysAgo(days: number): Date {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - days * DAY)
+}
+
+const dateKey = (date: Date) => date.toISOString().slice(0, 10)
+
+describe('启动补结算', () => {
+  it('首次运行不在启动时结算', async () => {
+    expect(await startWithLastSettlement('0 0 * * *')).to.deep.equal([])
+  })
+
+  it('只补结算已到触发时间的日期', async () => {
+    const expected = [dateKey(daysAgo(2)), dateKey(daysAgo(1))]
+    // 今天的 12:00 尚未到达时留给定时器
+    if (new Date().getUTCHours() >= 12) expected.push(dateKey(daysAgo(0)))
+    expect(await startWithLastSettlement('0 12 * * *', daysAgo(3))).to.deep.equal(expected)
+  })
+
+  it('按周触发时只补结算触发日', async () => {
+    const expected: string[] = []
+    for (let days = 14; days >= 0; days--) {
+      if (daysAgo(days).getUTCDay() === 1) expected.push(dateKey(daysAgo(days)))
+    }
+    expect(await startWithLastSettlement('0 0 * * 1', daysAgo(15))).to.deep.equal(expected)
+  })
+})
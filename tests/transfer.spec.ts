@@ -0,0 +1,38 @@
+import { expect } from 'chai'
+import { createBank, TestBank } from './utils'
+
+describe('API 转账', () => {
+  let bank: TestBank
+  let from: number
+  let to: number
+
+  beforeEach(async () => {
+    bank = await createBank({ currencies: [{ currency: 'coin' }] })
+    from = (await bank.app.database.createUser('test', '1', {})).id
+    to = (await bank.app.database.createUser('test', '2', {})).id
+    bank.cash.set(`${from}:coin`, 100)
+    await bank.app.monetaryBank.deposit(from, 'coin', 100)
+  })
+
+  afterEach(async () => {
+    await bank.app.stop()
+  })
+
+  it('转入已绑定账号的用户', async () => {
+    const result = await bank.app.monetaryBank.transfer(from, to, 'coin', 30)
+    expect(result.success).to.equal(true)
+    expect(result.targetBalance).to.deep.equal({ total: 30, demand: 30, fixed: 0 })
+  })
+
+  it('拒绝未配置的货币', async () => {
+    const result = await bank.app.monetaryBank.transfer(from, to, 'gold', 30)
+    expect(result).to.deep.equal({ success: false, error: '不支持的货币：gold' })
+    expect(await bank.app.database.get('monetary_bank_int', { currency: 'gold' })).to.have.length(0)
+  })
+
+  it('拒绝未绑定平台账号的接收方', async () => {
+    const result = await bank.app.monetaryBank.transfer(from, to + 100, 'coin', 30)
+    expect(result).to.deep.equal({ success: false, error: '接收方用户不存在' })
+    expect(await bank.app.monetaryBank.getBalance(from, 'coin')).to.deep.equal({ total: 100, demand: 100, fixed: 0 })
+  })
+})
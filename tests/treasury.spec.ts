@@ -0,0 +1,112 @@
+import { expect } from 'chai'
+import { internal } from '../src'
+import { createBank, TestBank } from './utils'
+
+describe('金库余额不足时的利息发放', () => {
+  let bank: TestBank
+
+  afterEach(async () => {
+    await bank.app.stop()
+  })
+
+  const setTreasury = (balance: number) =>
+    bank.app.database.upsert('monetary_bank_treasury', [{ currency: 'coin', balance, updatedAt: new Date() }])
+
+  /** 创建 1000 的周定期，返回定期记录 id */
+  async function createFixed() {
+    bank.cash.set('1:coin', 1000)
+    const { record } = await internal.createFixedDeposit(bank.app, 1, 'coin', bank.config.fixedInterest[0], 1000)
+    return record.id
+  }
+
+  /** 结算定期记录的下一个结算日，返回结算后的记录 */
+  async function settleFixed(id: number) {
+    const [before] = await bank.app.database.get('monetary_bank_int', { id })
+    await internal.settleInterestForDay(bank.app, bank.config, new Date(before.settlementDate))
+    const [after] = await bank.app.database.get('monetary_bank_int', { id })
+    return after
+  }
+
+  async function createWithMode(mode: 'deficit' | 'pause' | 'prorate') {
+    bank = await createBank({
+      treasury: { mode },
+      demandInterest: { enabled: true, rate: 1, cycle: 'day', model: 'compound' },
+      fixedInterest: [{ name: '周定期', rate: 10, cycle: 'week', term: 3 }]
+    })
+  }
+
+  it('deficit：照常付息，金库可为负', async () => {
+    await createWithMode('deficit')
+    const id = await createFixed()
+
+    const record = await settleFixed(id)
+    expect(record.amount).to.equal(1100)
+    expect((await bank.snapshot()).treasury).to.deep.equal({ coin: -100 })
+  })
+
+  it('pause：余额不足时本期不发放，注资后补发欠付利息', async () => {
+    await createWithMode('pause')
+    const id = await createFixed()
+    await setTreasury(50)
+
+    let record = await settleFixed(id)
+    expect(record.amount).to.equal(1000)
+    expect((await bank.snapshot()).treasury).to.deep.equal({ coin: 50 })
+
+    // 下个周期：欠付的 100 与本期的 100 一起发放
+    await setTreasury(1000)
+    record = await settleFixed(id)
+    expect(record.amount).to.equal(1200)
+    expect((await bank.snapshot()).treasury).to.deep.equal({ coin: 800 })
+  })
+
+  it('prorate：按比例发放，注资后补发欠付利息', async () => {
+    await createWithMode('prorate')
+    const id = await createFixed()
+    await setTreasury(50)
+
+    let record = await settleFixed(id)
+    expect(record.amount).to.equal(1050)
+    expect((await bank.snapshot()).treasury).to.deep.equal({ coin: 0 })
+
+    // 下个周期：本期 105 加欠付的 50
+    await setTreasury(1000)
+    record = await settleFixed(id)
+    expect(record.amount).to.equal(1205)
+    expect((await bank.snapshot()).treasury).to.deep.equal({ coin: 845 })
+  })
+
+  it('pause：活期欠付利息保留到下次结算，取空的记录也不会丢失', async () => {
+    await createWithMode('pause')
+    bank.cash.set('1:coin', 1000)
+    await bank.app.monetaryBank.deposit(1, 'coin', 1000)
+    const today = internal.startOfDay(new Date())
+
+    // 金库为空：第一天的 10 记为欠付
+    await internal.settleInterestForDay(bank.app, bank.config, internal.addDays(today, 1))
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 1000, demand: 1000, fixed: 0 })
+
+    // 全部取出后记录保留为金额 0，欠付利息在注资后发放
+    await bank.app.monetaryBank.withdraw(1, 'coin', 1000)
+    await setTreasury(100)
+    await internal.settleInterestForDay(bank.app, bank.config, internal.addDays(today, 2))
+    expect(await bank.app.monetaryBank.getBalance(1, 'coin')).to.deep.equal({ total: 10, demand: 10, fixed: 0 })
+    expect((await bank.snapshot()).treasury).to.deep.equal({ coin: 90 })
+  })
+
+  it('定期到期时欠付利息转入活期记录', async () => {
+    await createWithMode('pause')
+    const id = await createFixed()
+
+    // 金库为空：三个周期的利息均欠付，到期时共欠付 300
+    await setTreasury(0)
+    for (let i = 0; i < 3; i++) await settleFixed(id)
+    const [demand] = await bank.app.database.get('monetary_bank_int', { uid: 1, type: 'demand' })
+    expect(demand.amount).to.equal(1000)
+
+    await setTreasury(1000)
+    await internal.settleInterestForDay(bank.app, bank.config, new Date(demand.settlementDate))
+    const [settled] = await bank.app.database.get('monetary_bank_int', { id: demand.id })
+    expect(settled.amount).to.equal(1310)
+  })
+})
@@ -0,0 +1,97 @@
+import { App, Logger } from 'koishi'
+import memory from '@koishijs/plugin-database-memory'
+import * as bank from '../src'
+
+// 测试会主动注入写入失败，关闭插件日志以免干扰测试输出
+new Logger('[monetary-bank]').level = 0
+
+/**
+ * 测试用银行实例：内存数据库 + 内存现金后端，可在任意一步注入写入失败
+ */
+export interface TestBank {
+  app: App
+  config: bank.Config
+  cash: Map<string, number>
+  /**
+   * 在之后第 step 次"现金修改 / monetary_bank_int 创建 / monetary_bank_int 删除"时注入一次失败
+   * 返回函数用于查询失败是否已触发
+   */
+  failAt(step: number): () => boolean
+  /** 当前现金、存款记录与金库余额，用于比较操作前后的状态 */
+  snapshot(): Promise<{ cash: Record<string, number>; records: bank.MonetaryBankInterest[]; treasury: Record<string, number> }>
+}
+
+export async function createBank(options: bank.Config = {}): Promise<TestBank> {
+  const app = new App()
+  app.plugin(memory)
+
+  const config = bank.Config({ debug: false, ...options, currencyBackend: { type: 'test' } })
+  app.plugin(bank, config)
+  await app.start()
+
+  // 注入计数：仅统计资金相关的写入，交易流水等尽力写入的表不计入
+  let remaining = 0
+  let fired = false
+  const shouldFail = () => {
+    if (remaining <= 0) return false
+    if (--remaining > 0) return false
+    fired = true
+    return true
+  }
+
+  // 内存现金后端：每次读写前让出事件循环，放大并发操作交错的机会
+  const cash = new Map<string, number>()
+  const tick = () => new Promise(resolve => setImmediate(resolve))
+  app.monetaryBank.registerCurrencyBackend('test', {
+    async getBalance(uid, currency) {
+      await tick()
+      return cash.get(`${uid}:${currency}`) ?? null
+    },
+    async createAccount(uid, currency) {
+      await tick()
+      if (!cash.has(`${uid}:${currency}`)) cash.set(`${uid}:${currency}`, 0)
+      return true
+    },
+    async change(uid, currency, delta) {
+      const current = cash.get(`${uid}:${currency}`) ?? 0
+      await tick()
+      if (shouldFail()) return null
+      const value = Math.round((current + delta) * 1e8) / 1e8
+      if (value < 0) return null
+      cash.set(`${uid}:${currency}`, value)
+      return value
+    }
+  })
+
+  const database = app.database
+  const create = database.create.bind(database)
+  const remove = database.remove.bind(database)
+  database.create = ((table, data) => {
+    if (table === 'monetary_bank_int' && shouldFail()) return Promise.reject(new Error('注入的写入失败'))
+    return create(table, data)
+  }) as typeof database.create
+  database.remove = ((table, query) => {
+    if (table === 'monetary_bank_int' && shouldFail()) return Promise.reject(new Error('注入的写入失败'))
+    return remove(table, query)
+  }) as typeof database.remove
+
+  return {
+    app,
+    config,
+    cash,
+    failAt(step) {
+      remaining = step
+      fired = false
+      return () => fired
+    },
+    async snapshot() {
+      const records = await database.get('monetary_bank_int', {})
+      const treasury = await database.get('monetary_bank_treasury', {})
+      return {
+        cash: Object.fromEntries(cash),
+        records: records.sort((a, b) => a.id - b.id),
+        treasury: Object.fromEntries(treasury.map(t => [t.currency, t.balance]))
+      }
+    }
+  }
+}